@@ -0,0 +1,43 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+
+import {
+  LOCALE_COOKIE,
+  LOCALE_NAMES,
+  SUPPORTED_LOCALES,
+  type Locale,
+} from "@/lib/i18n";
+import { getMessages } from "@/lib/messages";
+
+const COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 365;
+
+/**
+ * Language picker. Stores the choice in the locale cookie and re-renders
+ * the page in the new language.
+ */
+export default function LocalePicker({ locale }: { locale: Locale }) {
+  const router = useRouter();
+
+  function changeLocale(next: string) {
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${COOKIE_MAX_AGE_SECONDS}; samesite=lax`;
+    router.refresh();
+  }
+
+  return (
+    <label className="inline-flex items-center gap-1 text-[11px] text-slate-500">
+      <span className="sr-only">{getMessages(locale).languageLabel}</span>
+      <select
+        value={locale}
+        onChange={(e) => changeLocale(e.target.value)}
+        className="rounded-full border border-slate-300 bg-white px-2 py-1 text-[11px] text-slate-700"
+      >
+        {SUPPORTED_LOCALES.map((option) => (
+          <option key={option} value={option} lang={option}>
+            {LOCALE_NAMES[option].nativeName}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
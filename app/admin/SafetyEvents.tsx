@@ -0,0 +1,430 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type SafetyEventStatus = "open" | "reviewed" | "resolved";
+
+type SafetyEventSummary = {
+  id: string;
+  sessionId: string;
+  ritualSlug: string;
+  configVersionId: string | null;
+  source: "input" | "output";
+  ruleId: string;
+  severity: string | null;
+  step: string;
+  matchedText: string | null;
+  excerpt: string;
+  status: SafetyEventStatus;
+  reviewNote: string | null;
+  reviewedBy: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+};
+
+type Notice = { type: "error" | "success"; text: string };
+
+const STATUS_FILTERS: { value: SafetyEventStatus | ""; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "reviewed", label: "Reviewed" },
+  { value: "resolved", label: "Resolved" },
+  { value: "", label: "All" },
+];
+
+const SEVERITY_LABELS: Record<string, { label: string; className: string }> =
+  {
+    hard_stop: { label: "Hard stop", className: "bg-red-100 text-red-700" },
+    resources: {
+      label: "Resources",
+      className: "bg-amber-100 text-amber-700",
+    },
+    check_in: { label: "Check-in", className: "bg-blue-100 text-blue-700" },
+  };
+
+const OUTPUT_LABEL = {
+  label: "Reply rule",
+  className: "bg-purple-100 text-purple-700",
+};
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => null);
+  return data && typeof data.error === "string" ? data.error : fallback;
+}
+
+/**
+ * The Safety Review tab of the admin panel: flagged user messages and
+ * rule-breaking replies for the current ritual, newest first, with review
+ * notes, status changes and CSV / JSON export.
+ */
+export default function SafetyEvents({
+  secret,
+  ritualSlug,
+  onNotice,
+}: {
+  secret: string;
+  ritualSlug: string | null;
+  onNotice: (notice: Notice) => void;
+}) {
+  const [statusFilter, setStatusFilter] = useState<SafetyEventStatus | "">(
+    "open",
+  );
+  const [events, setEvents] = useState<SafetyEventSummary[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [reviewer, setReviewer] = useState("");
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const filterParams = useCallback(() => {
+    const params = new URLSearchParams();
+    if (statusFilter) params.set("status", statusFilter);
+    if (ritualSlug) params.set("ritualSlug", ritualSlug);
+    return params;
+  }, [statusFilter, ritualSlug]);
+
+  const load = useCallback(
+    async (cursor?: string) => {
+      setLoading(true);
+
+      try {
+        const params = filterParams();
+        if (cursor) params.set("cursor", cursor);
+
+        const res = await fetch(`/api/admin/safety-events?${params}`, {
+          headers: { "x-admin-secret": secret },
+        });
+
+        if (!res.ok) {
+          onNotice({
+            type: "error",
+            text: await readError(res, "Failed to load safety events"),
+          });
+          return;
+        }
+
+        const data: {
+          events: SafetyEventSummary[];
+          nextCursor: string | null;
+        } = await res.json();
+
+        setEvents((prev) => (cursor ? [...prev, ...data.events] : data.events));
+        setNextCursor(data.nextCursor);
+      } catch (err: any) {
+        onNotice({
+          type: "error",
+          text: "Network error: " + (err?.message || String(err)),
+        });
+      } finally {
+        setLoading(false);
+      }
+    },
+    [secret, filterParams, onNotice],
+  );
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  async function review(
+    event: SafetyEventSummary,
+    status: SafetyEventStatus = event.status,
+  ) {
+    setSavingId(event.id);
+
+    try {
+      const res = await fetch(`/api/admin/safety-events/${event.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          "x-admin-secret": secret,
+        },
+        body: JSON.stringify({
+          status,
+          reviewNote: notes[event.id] ?? event.reviewNote,
+          reviewedBy: reviewer.trim() || event.reviewedBy,
+        }),
+      });
+
+      if (!res.ok) {
+        onNotice({
+          type: "error",
+          text: await readError(res, "Failed to update safety event"),
+        });
+        return;
+      }
+
+      const { event: updated }: { event: SafetyEventSummary } =
+        await res.json();
+
+      // Events that no longer match the status filter leave the list
+      setEvents((prev) =>
+        statusFilter && updated.status !== statusFilter
+          ? prev.filter((item) => item.id !== updated.id)
+          : prev.map((item) => (item.id === updated.id ? updated : item)),
+      );
+      setNotes((prev) => {
+        const { [event.id]: _saved, ...rest } = prev;
+        return rest;
+      });
+      onNotice({ type: "success", text: "Safety event updated" });
+    } catch (err: any) {
+      onNotice({
+        type: "error",
+        text: "Network error: " + (err?.message || String(err)),
+      });
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  async function exportEvents(format: "csv" | "json") {
+    setExporting(true);
+
+    try {
+      const params = filterParams();
+      params.set("format", format);
+
+      const res = await fetch(`/api/admin/safety-events/export?${params}`, {
+        headers: { "x-admin-secret": secret },
+      });
+
+      if (!res.ok) {
+        onNotice({
+          type: "error",
+          text: await readError(res, "Failed to export safety events"),
+        });
+        return;
+      }
+
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `safety-events-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      onNotice({
+        type: "error",
+        text: "Network error: " + (err?.message || String(err)),
+      });
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 px-4 sm:px-6 py-4 space-y-3">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div
+            role="group"
+            aria-label="Filter by status"
+            className="flex space-x-1 bg-slate-100 rounded-lg p-1"
+          >
+            {STATUS_FILTERS.map((filter) => (
+              <button
+                key={filter.label}
+                type="button"
+                onClick={() => setStatusFilter(filter.value)}
+                aria-pressed={statusFilter === filter.value}
+                className={
+                  "px-3 py-1.5 text-xs sm:text-sm font-medium rounded-md transition-all " +
+                  (statusFilter === filter.value
+                    ? "bg-white text-slate-900 shadow-sm"
+                    : "text-slate-600 hover:text-slate-900")
+                }
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => exportEvents("csv")}
+              disabled={exporting}
+              className="px-3 py-1.5 rounded-lg border border-slate-300 text-xs sm:text-sm text-slate-700 bg-white hover:bg-slate-100 disabled:opacity-50"
+            >
+              Export CSV
+            </button>
+            <button
+              type="button"
+              onClick={() => exportEvents("json")}
+              disabled={exporting}
+              className="px-3 py-1.5 rounded-lg border border-slate-300 text-xs sm:text-sm text-slate-700 bg-white hover:bg-slate-100 disabled:opacity-50"
+            >
+              Export JSON
+            </button>
+          </div>
+        </div>
+
+        <label className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-3 text-xs sm:text-sm text-slate-700">
+          <span className="font-medium">Reviewer</span>
+          <input
+            type="text"
+            value={reviewer}
+            onChange={(e) => setReviewer(e.target.value)}
+            placeholder="Your name, saved with each review"
+            className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-xs sm:text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </label>
+
+        <p className="text-xs text-slate-500">
+          Excerpts are redacted when events are recorded: email addresses,
+          links, handles and long numbers are removed.
+        </p>
+      </div>
+
+      {events.length === 0 && !loading ? (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 px-6 py-12 sm:py-16 text-center">
+          <h3 className="text-base sm:text-lg font-semibold text-slate-900 mb-2">
+            No safety events
+          </h3>
+          <p className="text-sm text-slate-600">
+            Nothing matches this filter for{" "}
+            {ritualSlug ? ritualSlug : "this ritual"}.
+          </p>
+        </div>
+      ) : (
+        events.map((event) => {
+          const badge =
+            event.source === "output"
+              ? OUTPUT_LABEL
+              : (SEVERITY_LABELS[event.severity ?? ""] ?? OUTPUT_LABEL);
+          const note = notes[event.id] ?? event.reviewNote ?? "";
+          const saving = savingId === event.id;
+
+          return (
+            <div
+              key={event.id}
+              className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden"
+            >
+              <div className="px-4 sm:px-6 py-4 space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span
+                    className={
+                      "inline-flex items-center px-2.5 py-1 rounded-full text-xs font-semibold " +
+                      badge.className
+                    }
+                  >
+                    {badge.label}
+                  </span>
+                  <span className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-semibold bg-slate-100 text-slate-700">
+                    {event.ruleId}
+                  </span>
+                  <span className="text-xs text-slate-500">
+                    {formatDate(event.createdAt)} · {event.step} ·{" "}
+                    {event.status}
+                  </span>
+                </div>
+
+                {event.matchedText && (
+                  <p className="text-xs text-slate-700 break-words">
+                    <span className="font-medium">Matched:</span>{" "}
+                    <mark className="bg-amber-100 rounded px-1">
+                      {event.matchedText}
+                    </mark>
+                  </p>
+                )}
+
+                <blockquote className="border-l-2 border-slate-300 pl-3 text-sm text-slate-800 break-words">
+                  {event.excerpt}
+                </blockquote>
+
+                <p className="text-[11px] text-slate-500 break-all">
+                  Session {event.sessionId}
+                  {event.configVersionId
+                    ? ` · Config version ${event.configVersionId}`
+                    : ""}
+                  {event.reviewedBy ? ` · Reviewed by ${event.reviewedBy}` : ""}
+                  {event.resolvedAt
+                    ? ` · Resolved ${formatDate(event.resolvedAt)}`
+                    : ""}
+                </p>
+
+                <textarea
+                  value={note}
+                  onChange={(e) =>
+                    setNotes((prev) => ({
+                      ...prev,
+                      [event.id]: e.target.value,
+                    }))
+                  }
+                  aria-label="Review note"
+                  placeholder="Review note"
+                  rows={2}
+                  className="w-full border border-slate-300 rounded-lg p-2 text-xs sm:text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={() => review(event)}
+                    disabled={saving || notes[event.id] === undefined}
+                    className="px-3 py-1.5 rounded-lg border border-slate-300 text-xs text-slate-700 bg-white hover:bg-slate-100 disabled:opacity-50"
+                  >
+                    Save note
+                  </button>
+                  {event.status !== "reviewed" && (
+                    <button
+                      type="button"
+                      onClick={() => review(event, "reviewed")}
+                      disabled={saving}
+                      className="px-3 py-1.5 rounded-lg border border-slate-300 text-xs text-slate-700 bg-white hover:bg-slate-100 disabled:opacity-50"
+                    >
+                      Mark reviewed
+                    </button>
+                  )}
+                  {event.status !== "resolved" ? (
+                    <button
+                      type="button"
+                      onClick={() => review(event, "resolved")}
+                      disabled={saving}
+                      className="px-3 py-1.5 rounded-lg bg-blue-600 text-white text-xs font-medium hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Resolve
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => review(event, "open")}
+                      disabled={saving}
+                      className="px-3 py-1.5 rounded-lg border border-slate-300 text-xs text-slate-700 bg-white hover:bg-slate-100 disabled:opacity-50"
+                    >
+                      Reopen
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })
+      )}
+
+      {(loading || nextCursor) && (
+        <div className="text-center">
+          <button
+            type="button"
+            onClick={() => nextCursor && load(nextCursor)}
+            disabled={loading}
+            className="px-4 py-2 rounded-lg border border-slate-300 text-xs sm:text-sm text-slate-700 bg-white hover:bg-slate-100 disabled:opacity-50"
+          >
+            {loading ? "Loading..." : "Load more"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
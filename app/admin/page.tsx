@@ -2,6 +2,8 @@
 
 import { useEffect, useState } from "react";
 
+import SafetyEvents from "./SafetyEvents";
+
 type MessageState = {
   type: "info" | "error" | "success";
   text: string;
@@ -31,8 +33,11 @@ export default function AdminPage() {
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState<MessageState>(null);
   const [ritualSlug, setRitualSlug] = useState<string | null>(null);
+  const [ritualSlugInput, setRitualSlugInput] = useState("");
   const [versions, setVersions] = useState<RitualVersionSummary[]>([]);
-  const [activeTab, setActiveTab] = useState<"editor" | "versions">("editor");
+  const [activeTab, setActiveTab] = useState<
+    "editor" | "versions" | "safety"
+  >("editor");
 
   useEffect(() => {
     if (message) {
@@ -54,7 +59,13 @@ export default function AdminPage() {
     setMessage(null);
 
     try {
-      const res = await fetch("/api/admin/config", {
+      // Leaving the slug empty loads the default ritual
+      const slug = ritualSlugInput.trim();
+      const url = slug
+        ? `/api/admin/config?ritualSlug=${encodeURIComponent(slug)}`
+        : "/api/admin/config";
+
+      const res = await fetch(url, {
         method: "GET",
         headers: {
           "x-admin-secret": secret,
@@ -148,7 +159,11 @@ export default function AdminPage() {
         return;
       }
 
-      const res = await fetch("/api/admin/config", {
+      const url = ritualSlug
+        ? `/api/admin/config?ritualSlug=${encodeURIComponent(ritualSlug)}`
+        : "/api/admin/config";
+
+      const res = await fetch(url, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -266,6 +281,22 @@ export default function AdminPage() {
                 />
               </div>
 
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-slate-700">
+                  Ritual slug{" "}
+                  <span className="font-normal text-slate-400">(optional)</span>
+                </label>
+                <input
+                  type="text"
+                  value={ritualSlugInput}
+                  onChange={(e) => setRitualSlugInput(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && authenticate()}
+                  className="w-full px-4 py-3 sm:py-3.5 border border-slate-300 rounded-lg text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Default ritual"
+                  disabled={loading}
+                />
+              </div>
+
               <button
                 type="button"
                 onClick={authenticate}
@@ -434,6 +465,18 @@ export default function AdminPage() {
               </span>
             )}
           </button>
+          <button
+            onClick={() => setActiveTab("safety")}
+            className={
+              "flex-1 px-3 sm:px-4 py-2 sm:py-2.5 text-xs sm:text-sm font-medium rounded-md transition-all " +
+              (activeTab === "safety"
+                ? "bg-white text-slate-900 shadow-sm"
+                : "text-slate-600 hover:text-slate-900")
+            }
+          >
+            <span className="hidden sm:inline">Safety Review</span>
+            <span className="sm:hidden">Safety</span>
+          </button>
         </div>
 
         {/* Editor Tab - Fully Responsive */}
@@ -613,6 +656,15 @@ export default function AdminPage() {
             )}
           </div>
         )}
+
+        {/* Safety Review Tab */}
+        {activeTab === "safety" && (
+          <SafetyEvents
+            secret={secret}
+            ritualSlug={ritualSlug}
+            onNotice={setMessage}
+          />
+        )}
       </main>
     </div>
   );
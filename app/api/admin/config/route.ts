@@ -1,20 +1,41 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import { getPresenceConfig } from "@/lib/config";
+import { checkAdminSecret } from "@/lib/adminAuth";
+
+import {
+  getDefaultRitualSlug,
+  getPresenceConfig,
+  isValidRitualSlug,
+} from "@/lib/config";
 
 import {
   createRitualConfigVersion,
+  getRitualBySlug,
   getRitualVersions,
   activateRitualConfigVersion,
   type RitualConfigJson,
 } from "@/lib/configStore";
 
-const ADMIN_SECRET = process.env.ADMIN_SECRET;
+import { validateStepDefinition } from "@/lib/stepMachine";
+
+import { validateLocales } from "@/lib/i18n";
+import { validateSafetyRules } from "@/lib/safety";
+
+/**
+ * The ritual an admin request targets: the `ritualSlug` query parameter,
+ * or the default ritual when it is omitted. Null if the slug is invalid.
+ */
+function getRequestedRitualSlug(req: NextRequest): string | null {
+  const slug = req.nextUrl.searchParams.get("ritualSlug");
+  if (!slug) return getDefaultRitualSlug();
+  return isValidRitualSlug(slug) ? slug : null;
+}
 
 /**
- * GET /api/admin/config
+ * GET /api/admin/config?ritualSlug=...
  *
- * Returns the current Presence Shift configuration JSON as text.
+ * Returns the current Presence Shift configuration JSON as text, for the
+ * ritual named by `ritualSlug` (default: DEFAULT_RITUAL_SLUG).
  * Requires an `x-admin-secret` header matching ADMIN_SECRET.
  *
  * NOTE:
@@ -23,36 +44,38 @@ const ADMIN_SECRET = process.env.ADMIN_SECRET;
 
   *   through `getPresenceConfig()`. In addition, when a database-backed
   *   ritual configuration is present, it will return that config and the
-  *   list of versions for the default ritual.
+  *   list of versions for the requested ritual.
   */
 export async function GET(req: NextRequest) {
-  if (!ADMIN_SECRET) {
-    return NextResponse.json(
-      { error: "ADMIN_SECRET is not configured on the server." },
-      { status: 500 },
-    );
-  }
+  const unauthorized = checkAdminSecret(req);
+  if (unauthorized) return unauthorized;
 
-  const secretHeader = req.headers.get("x-admin-secret");
+  const ritualSlug = getRequestedRitualSlug(req);
 
-  if (!secretHeader || secretHeader !== ADMIN_SECRET) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  if (!ritualSlug) {
+    return NextResponse.json(
+      { error: "Invalid 'ritualSlug'." },
+      { status: 400 },
+    );
   }
 
-  // Default ritual slug; this can be made dynamic later if you support
-  // multiple rituals from the admin UI.
-  const defaultRitualSlug = process.env.DEFAULT_RITUAL_SLUG || "ps1_foundation";
-
-  let config = getPresenceConfig();
+  let config: unknown = null;
 
   let versions = [] as Awaited<ReturnType<typeof getRitualVersions>>;
 
   try {
-    versions = await getRitualVersions(defaultRitualSlug);
+    config = await getPresenceConfig(ritualSlug);
+  } catch {
+    // A new ritual starts from a copy of the default ritual's config
+    config = await getPresenceConfig();
+  }
+
+  try {
+    versions = await getRitualVersions(ritualSlug);
     // If there is at least one version, prefer the most recent configJson
     if (versions.length > 0) {
       const latest = versions[0];
-      config = latest.configJson as unknown as typeof config;
+      config = latest.configJson;
     }
   } catch {
     // If DB lookup fails, silently fall back to the static JSON config.
@@ -60,7 +83,7 @@ export async function GET(req: NextRequest) {
   }
 
   const payload = {
-    ritualSlug: defaultRitualSlug,
+    ritualSlug,
     config,
     versions: versions.map((v) => ({
       id: v.id,
@@ -81,32 +104,33 @@ export async function GET(req: NextRequest) {
 }
 
 /**
- * POST /api/admin/config
+ * POST /api/admin/config?ritualSlug=...&ritualName=...
  *
  * Accepts a JSON body representing a new Presence Shift configuration.
- * Requires an `x-admin-secret` header matching ADMIN_SECRET.
+ * Requires an `x-admin-secret` header matching ADMIN_SECRET. The ritual
+ * is created if `ritualSlug` does not exist yet, named `ritualName`.
  *
 
   * IMPORTANT:
 
   * - This implementation validates and then stores the configuration
-  *   as a new versioned record in the database for the default ritual.
+  *   as a new versioned record in the database for the requested ritual.
   * - It also marks the new version as active (and deactivates prior
   *   versions) so the Companion uses it for new sessions.
   */
 export async function POST(req: NextRequest) {
-  if (!ADMIN_SECRET) {
+  const unauthorized = checkAdminSecret(req);
+  if (unauthorized) return unauthorized;
+
+  const ritualSlug = getRequestedRitualSlug(req);
+
+  if (!ritualSlug) {
     return NextResponse.json(
-      { error: "ADMIN_SECRET is not configured on the server." },
-      { status: 500 },
+      { error: "Invalid 'ritualSlug'." },
+      { status: 400 },
     );
   }
 
-  const secretHeader = req.headers.get("x-admin-secret");
-  if (!secretHeader || secretHeader !== ADMIN_SECRET) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
   let newConfig: unknown;
 
   try {
@@ -135,19 +159,51 @@ export async function POST(req: NextRequest) {
     );
   }
 
+  // The step sequence and transitions drive the whole ritual, so reject
+  // definitions that could leave sessions stuck.
+  const stepError = validateStepDefinition(newConfig);
+
+  if (stepError) {
+    return NextResponse.json(
+      { error: `Invalid step definition: ${stepError}` },
+      { status: 400 },
+    );
+  }
+
+  const localeError = validateLocales(newConfig);
+
+  if (localeError) {
+    return NextResponse.json(
+      { error: `Invalid translations: ${localeError}` },
+      { status: 400 },
+    );
+  }
+
+  const safetyError = validateSafetyRules(newConfig);
+
+  if (safetyError) {
+    return NextResponse.json(
+      { error: `Invalid safety rules: ${safetyError}` },
+      { status: 400 },
+    );
+  }
+
   // At this point, persist `newConfig` as a new ritual config version.
   // We assume the payload matches the RitualConfigJson shape.
-  const defaultRitualSlug = process.env.DEFAULT_RITUAL_SLUG || "ps1_foundation";
-  const ritualName =
-    process.env.DEFAULT_RITUAL_NAME || "Presence Shift 1 – Foundation";
-
   let createdVersionId: string | null = null;
 
   try {
     const cfg = newConfig as RitualConfigJson;
 
+    // Keep an existing ritual's name unless a new one is given
+    const ritualName =
+      req.nextUrl.searchParams.get("ritualName") ||
+      (ritualSlug === getDefaultRitualSlug()
+        ? process.env.DEFAULT_RITUAL_NAME || "Presence Shift 1 – Foundation"
+        : ((await getRitualBySlug(ritualSlug))?.name ?? ritualSlug));
+
     const version = await createRitualConfigVersion({
-      ritualSlug: defaultRitualSlug,
+      ritualSlug,
       ritualName,
       ritualDescription: null,
       config: cfg,
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { checkAdminSecret } from "@/lib/adminAuth";
+import {
+  isSafetyLogEnabled,
+  reviewSafetyEvent,
+  SAFETY_EVENT_STATUSES,
+  type SafetyEventStatus,
+} from "@/lib/safetyLog";
+
+/**
+ * Longest review note accepted, in characters.
+ */
+const MAX_REVIEW_NOTE_LENGTH = 4000;
+
+/**
+ * A text field of the body: undefined leaves it unchanged, and null or a
+ * blank string clears it.
+ */
+function toOptionalText(value: unknown): string | null | undefined {
+  if (value === undefined) return undefined;
+  return typeof value === "string" ? value.trim() || null : null;
+}
+
+/**
+ * PATCH /api/admin/safety-events/[id]
+ *
+ * Reviews a safety event. The body may set `status` (open, reviewed or
+ * resolved), `reviewNote` and `reviewedBy`; `null` clears the note or
+ * reviewer. Returns the updated event. Requires an `x-admin-secret` header
+ * matching ADMIN_SECRET.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const unauthorized = checkAdminSecret(req);
+  if (unauthorized) return unauthorized;
+
+  if (!isSafetyLogEnabled()) {
+    return NextResponse.json(
+      { error: "Safety events are only stored when DATABASE_URL is set." },
+      { status: 503 },
+    );
+  }
+
+  const { id } = await params;
+
+  let body: Record<string, unknown>;
+
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON in request body." },
+      { status: 400 },
+    );
+  }
+
+  if (typeof body !== "object" || body === null) {
+    return NextResponse.json(
+      { error: "Body must be a JSON object." },
+      { status: 400 },
+    );
+  }
+
+  const { status, reviewNote, reviewedBy } = body;
+
+  if (
+    status !== undefined &&
+    !SAFETY_EVENT_STATUSES.includes(status as SafetyEventStatus)
+  ) {
+    return NextResponse.json(
+      {
+        error: `'status' must be one of ${SAFETY_EVENT_STATUSES.join(", ")}.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  for (const [key, value] of Object.entries({ reviewNote, reviewedBy })) {
+    if (value !== undefined && value !== null && typeof value !== "string") {
+      return NextResponse.json(
+        { error: `'${key}' must be a string or null.` },
+        { status: 400 },
+      );
+    }
+  }
+
+  if (
+    typeof reviewNote === "string" &&
+    reviewNote.length > MAX_REVIEW_NOTE_LENGTH
+  ) {
+    return NextResponse.json(
+      {
+        error: `'reviewNote' must be at most ${MAX_REVIEW_NOTE_LENGTH} characters.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const event = await reviewSafetyEvent(id, {
+      status: status as SafetyEventStatus | undefined,
+      reviewNote: toOptionalText(reviewNote),
+      reviewedBy: toOptionalText(reviewedBy),
+    });
+
+    if (!event) {
+      return NextResponse.json(
+        { error: "Safety event not found." },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ event }, { status: 200 });
+  } catch (err) {
+    console.error("Failed to update safety event:", err);
+    return NextResponse.json(
+      { error: "Failed to update safety event." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { checkAdminSecret } from "@/lib/adminAuth";
+import {
+  exportSafetyEvents,
+  isSafetyLogEnabled,
+  parseSafetyEventFilter,
+  toSafetyEventsCsv,
+} from "@/lib/safetyLog";
+
+/**
+ * GET /api/admin/safety-events/export?format=csv|json&status=...&from=...&to=...
+ *
+ * Downloads every safety event matching the filters (as for
+ * `GET /api/admin/safety-events`), oldest first, as CSV (default) or
+ * JSON. Excerpts are already redacted when events are recorded. Requires
+ * an `x-admin-secret` header matching ADMIN_SECRET.
+ */
+export async function GET(req: NextRequest) {
+  const unauthorized = checkAdminSecret(req);
+  if (unauthorized) return unauthorized;
+
+  if (!isSafetyLogEnabled()) {
+    return NextResponse.json(
+      { error: "Safety events are only stored when DATABASE_URL is set." },
+      { status: 503 },
+    );
+  }
+
+  const params = req.nextUrl.searchParams;
+  const format = params.get("format") ?? "csv";
+
+  if (format !== "csv" && format !== "json") {
+    return NextResponse.json(
+      { error: "'format' must be csv or json." },
+      { status: 400 },
+    );
+  }
+
+  const parsed = parseSafetyEventFilter(params);
+
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  let events: Awaited<ReturnType<typeof exportSafetyEvents>>;
+
+  try {
+    events = await exportSafetyEvents(parsed.filter);
+  } catch (err) {
+    console.error("Failed to export safety events:", err);
+    return NextResponse.json(
+      { error: "Failed to export safety events." },
+      { status: 500 },
+    );
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+
+  return new NextResponse(
+    format === "csv"
+      ? toSafetyEventsCsv(events)
+      : JSON.stringify({ events }, null, 2),
+    {
+      status: 200,
+      headers: {
+        "Content-Type":
+          format === "csv"
+            ? "text/csv; charset=utf-8"
+            : "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="safety-events-${date}.${format}"`,
+        "Cache-Control": "no-store",
+      },
+    },
+  );
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { checkAdminSecret } from "@/lib/adminAuth";
+import {
+  isSafetyLogEnabled,
+  listSafetyEvents,
+  parseSafetyEventFilter,
+} from "@/lib/safetyLog";
+
+/**
+ * GET /api/admin/safety-events?status=...&ritualSlug=...&limit=...&cursor=...
+ *
+ * Returns a page of safety events, newest first, optionally filtered by
+ * `status` (open, reviewed or resolved), `ritualSlug` and a `from` / `to`
+ * date range. Pass `nextCursor` from the response as `cursor` for the
+ * next page. Requires an `x-admin-secret` header matching ADMIN_SECRET.
+ * Responds with 503 when safety events are not stored (no DATABASE_URL).
+ */
+export async function GET(req: NextRequest) {
+  const unauthorized = checkAdminSecret(req);
+  if (unauthorized) return unauthorized;
+
+  if (!isSafetyLogEnabled()) {
+    return NextResponse.json(
+      { error: "Safety events are only stored when DATABASE_URL is set." },
+      { status: 503 },
+    );
+  }
+
+  const params = req.nextUrl.searchParams;
+  const parsed = parseSafetyEventFilter(params);
+
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const limit = Number(params.get("limit") ?? 25);
+
+  try {
+    const page = await listSafetyEvents(parsed.filter, {
+      limit: Number.isFinite(limit) ? limit : 25,
+      cursor: params.get("cursor") ?? undefined,
+    });
+
+    return NextResponse.json(page, { status: 200 });
+  } catch (err) {
+    console.error("Failed to list safety events:", err);
+    return NextResponse.json(
+      { error: "Failed to load safety events." },
+      { status: 500 },
+    );
+  }
+}
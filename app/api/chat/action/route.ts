@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { PresenceStep, SessionEndReason, SessionNotes } from "@/lib/types";
+
+import {
+  getSessionState,
+  isValidSessionId,
+  saveSessionState,
+} from "@/lib/sessionStore";
+
+import { getSessionConfig, type PresenceConfig } from "@/lib/config";
+
+import { localizeConfig } from "@/lib/i18n";
+
+import { sessionEventBase, trackEvent } from "@/lib/analytics";
+
+import { countSessionTurns } from "@/lib/stepMachine";
+
+import {
+  applySessionAction,
+  isSessionAction,
+  SESSION_ACTIONS,
+  type SessionAction,
+} from "@/lib/sessionControls";
+
+import {
+  consumeIpLimit,
+  getChatRateLimiters,
+  rateLimited,
+} from "@/lib/rateLimit";
+
+interface SessionActionRequestBody {
+  sessionId: string;
+  action: SessionAction;
+}
+
+interface SessionActionResponseBody {
+  /**
+   * Message the action added to the conversation (`skip` and `end`).
+   */
+  assistantMessage?: string;
+  currentStep: PresenceStep;
+  done: boolean;
+  paused: boolean;
+  notes: SessionNotes;
+  endReason?: SessionEndReason;
+}
+
+/**
+ * POST /api/chat/action
+ *
+ * Applies an in-ritual control to an existing session: `restart`, `skip`,
+ * `pause`, `resume` or `end` (see `lib/sessionControls.ts`). Shares the
+ * per-IP rate limit of `POST /api/chat`, with its own per-session limit.
+ *
+ * Responds with 404 if the session does not exist, and with 409 and a
+ * `code` of `paused` or `ended` if the action is not allowed in the
+ * session's current state.
+ */
+export async function POST(req: NextRequest): Promise<Response> {
+  const limiters = getChatRateLimiters();
+
+  const ipLimit = consumeIpLimit(limiters.ip, req.headers);
+  if (!ipLimit.allowed) {
+    return rateLimited(ipLimit.retryAfterSeconds);
+  }
+
+  let body: SessionActionRequestBody;
+
+  try {
+    body = (await req.json()) as SessionActionRequestBody;
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON payload." },
+      { status: 400 },
+    );
+  }
+
+  const { sessionId, action } = body;
+
+  if (!isValidSessionId(sessionId)) {
+    return NextResponse.json(
+      { error: "Missing or invalid 'sessionId'." },
+      { status: 400 },
+    );
+  }
+
+  if (!isSessionAction(action)) {
+    return NextResponse.json(
+      {
+        error: `'action' must be one of: ${SESSION_ACTIONS.join(", ")}.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const sessionLimit = limiters.action.consume(sessionId);
+  if (!sessionLimit.allowed) {
+    return rateLimited(sessionLimit.retryAfterSeconds);
+  }
+
+  const session = await getSessionState(sessionId);
+
+  if (!session) {
+    return NextResponse.json({ error: "Session not found." }, { status: 404 });
+  }
+
+  let config: PresenceConfig;
+
+  try {
+    config = localizeConfig(
+      (await getSessionConfig(session)).config,
+      session.locale,
+    );
+  } catch (err) {
+    console.error("Failed to load ritual config for /api/chat/action:", err);
+    return NextResponse.json(
+      {
+        error:
+          "This Presence Shift is temporarily unavailable. Please try again shortly.",
+      },
+      { status: 503 },
+    );
+  }
+
+  const fromStep = session.currentStep;
+  const result = applySessionAction({ session, action, config });
+
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: result.error, code: result.code },
+      { status: 409 },
+    );
+  }
+
+  await saveSessionState(session);
+
+  const base = sessionEventBase(session);
+
+  switch (action) {
+    case "restart":
+      trackEvent({ ...base, type: "session_restarted" });
+      break;
+    case "skip":
+      trackEvent({
+        ...base,
+        type: "step_skipped",
+        fromStep,
+        toStep: session.currentStep,
+      });
+      break;
+    case "pause":
+      trackEvent({ ...base, type: "session_paused" });
+      break;
+    case "resume":
+      trackEvent({ ...base, type: "session_resumed" });
+      break;
+  }
+
+  const done = session.currentStep === "DONE";
+
+  if (done && fromStep !== "DONE") {
+    trackEvent({
+      ...base,
+      type: "session_ended",
+      endReason: session.endReason ?? "completed",
+      turns: countSessionTurns(session),
+    });
+  }
+
+  return NextResponse.json<SessionActionResponseBody>(
+    {
+      assistantMessage: result.assistantMessage,
+      currentStep: session.currentStep,
+      done,
+      paused: Boolean(session.pausedAt),
+      notes: session.notes,
+      endReason: session.endReason,
+    },
+    { status: 200 },
+  );
+}
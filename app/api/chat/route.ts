@@ -1,57 +1,460 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import OpenAI from "openai";
+import {
+  PresenceStep,
+  SessionEndReason,
+  SessionNotes,
+  SessionState,
+  TranscriptEntry,
+  TurnResult,
+} from "@/lib/types";
+
+import {
+  getSessionState,
+  isValidSessionId,
+  saveSessionState,
+} from "@/lib/sessionStore";
 
-import { PresenceStep, SessionState } from "@/lib/types";
+import { buildPromptForStep } from "@/lib/promptBuilder";
 
-import { getSessionState, saveSessionState } from "@/lib/sessionStore";
+import {
+  checkForSafetyFlags,
+  checkOutputSafety,
+  getSettledLength,
+} from "@/lib/safety";
+import { recordSafetyEvent } from "@/lib/safetyLog";
+
+import { checkReplyText, detectPromptInjection } from "@/lib/promptInjection";
+
+import { parseBreathingReport, type BreathingReport } from "@/lib/breathing";
+
+import {
+  getDefaultLocale,
+  LOCALE_COOKIE,
+  localizeConfig,
+  matchLocale,
+  resolveLocale,
+} from "@/lib/i18n";
+
+import { getMessages } from "@/lib/messages";
+
+import {
+  getActiveConfig,
+  getDefaultRitualSlug,
+  getSessionConfig,
+  isValidRitualSlug,
+  RitualNotFoundError,
+  type PresenceConfig,
+  type SessionConfig,
+} from "@/lib/config";
+
+import { sessionEventBase, trackEvent } from "@/lib/analytics";
+
+import type { SessionActionRefusal } from "@/lib/sessionControls";
+
+import type { RitualConfigJson } from "@/lib/configStore";
+
+import {
+  getLLMProvider,
+  type LLMMessage,
+  type LLMProvider,
+} from "@/lib/llm";
+
+import {
+  countLifetimeTurns,
+  countSessionTurns,
+  getFirstStep,
+  getRitualSteps,
+  resolveNextStep,
+  type RitualStep,
+} from "@/lib/stepMachine";
+
+import {
+  resolveModelOutput,
+  type OutputViolation,
+} from "@/lib/modelOutput";
+
+import { appendToTranscript } from "@/lib/transcript";
+
+import {
+  getChatLimits,
+  consumeIpLimit,
+  getChatRateLimiters,
+  rateLimited,
+} from "@/lib/rateLimit";
+
+import {
+  buildScriptedTurn,
+  isScriptedModeEnabled,
+} from "@/lib/scriptedEngine";
+
+import {
+  createAssistantMessageExtractor,
+  encodeSseEvent,
+} from "@/lib/streaming";
 
-import { buildPromptForStep } from "@/lib/promptBuilder";
+interface ChatRequestBody {
+  sessionId: string;
+  userMessage: string;
+  /**
+   * Optional description of what's next in the user's day
+   * (e.g., "client session", "deep work") — only sent on the
+   * first message of a session.
+   */
+  nextActivity?: string;
+  /**
+   * Slug of the ritual to run (defaults to DEFAULT_RITUAL_SLUG). Only
+   * used when the session is created; a session keeps its ritual.
+   */
+  ritualSlug?: string;
+  /**
+   * When true, the reply is streamed back as Server-Sent Events
+   * (`delta` fragments of the assistant message, then a final `done`
+   * event carrying the usual response body).
+   */
+  stream?: boolean;
+  /**
+   * Result of the guided breathing exercise the user did with the
+   * on-screen timer since their last message, if any. Ignored unless the
+   * current step has a `breathing` config.
+   */
+  breathing?: BreathingReport;
+  /**
+   * Language chosen in the language picker (e.g. "es"). Changes the
+   * language of an existing session; a new session without it takes the
+   * locale cookie or `Accept-Language`.
+   */
+  locale?: string;
+}
 
-import { checkForSafetyFlags } from "@/lib/safety";
+interface ChatResponseBody {
+  assistantMessage: string;
+  currentStep: PresenceStep;
+  done: boolean;
+  /**
+   * Notes captured so far, keyed by lowercase step ID, for the progress
+   * indicator.
+   */
+  notes: SessionNotes;
+  /**
+   * Why the session ended (only when `done`).
+   */
+  endReason?: SessionEndReason;
+}
 
-let openai: OpenAI | null = null;
+/**
+ * Error body for requests refused by the abuse protections. `code` lets
+ * the client tell a temporary rate limit from a permanent session cap.
+ */
+interface ChatLimitErrorBody {
+  error: string;
+  code: "rate_limited" | "turn_limit" | "message_too_long";
+  /**
+   * Seconds until the request may be retried (`rate_limited` only).
+   */
+  retryAfterSeconds?: number;
+  /**
+   * Maximum accepted message length (`message_too_long` only).
+   */
+  maxLength?: number;
+}
 
 /**
+ * Error body for messages sent to a session that cannot take them right
+ * now (see `POST /api/chat/action`).
+ */
+interface ChatStateErrorBody {
+  error: string;
+  code: SessionActionRefusal;
+}
 
- * Lazily initialize the OpenAI client.
+/**
+ * Snapshot of a session returned by `GET /api/chat`, used by the client
+ * to resume an in-progress Presence Shift after a refresh.
+ */
+interface SessionSnapshotBody {
+  sessionId: string;
+  ritualSlug: string;
+  /**
+   * The steps of the session's ritual, in order. Omitted when the
+   * session's config cannot be loaded.
+   */
+  steps?: RitualStep[];
+  /**
+   * Language the session runs in.
+   */
+  locale: string;
+  currentStep: PresenceStep;
+  done: boolean;
+  paused: boolean;
+  nextActivity?: string;
+  notes: SessionNotes;
+  transcript: {
+    role: TranscriptEntry["role"];
+    text: string;
+    step: PresenceStep;
+    timestamp: string;
+  }[];
+}
 
+/**
+ * Apply a turn result to the session, persist it, and build the
+ * response body returned to the client.
  *
-
- * This avoids throwing at module import time when OPENAI_API_KEY is missing,
- * and instead defers the error handling to request time.
+ * The proposed `nextStep` is checked against the step state machine:
+ * illegal jumps are rejected and steps that reached their `maxTurns` are
+ * moved forward. `resources` (from a "resources" safety match) is added
+ * to the end of the reply.
  */
-function getOpenAIClient(): OpenAI {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error(
-      "Server is not configured with an OpenAI API key. Please set OPENAI_API_KEY.",
+async function completeTurn(
+  session: SessionState,
+  userMessage: string,
+  result: TurnResult,
+  config: PresenceConfig,
+  resources?: string,
+): Promise<ChatResponseBody> {
+  const { notesUpdate } = result;
+  const reply =
+    result.assistantMessage ||
+    "I’ll pause here for now. You can refresh the page to begin a new Presence Shift when you’re ready.";
+  const assistantMessage = resources ? `${reply}\n\n${resources}` : reply;
+
+  const fromStep = session.currentStep;
+  const turnsInStep = (session.stepTurns[fromStep] ?? 0) + 1;
+  session.lifetimeTurns = countLifetimeTurns(session) + 1;
+  session.stepTurns = { ...session.stepTurns, [fromStep]: turnsInStep };
+
+  const { step: nextStep, resolution } = resolveNextStep({
+    from: fromStep,
+    proposed: result.nextStep,
+    turnsInStep,
+    config,
+  });
+
+  if (resolution !== "accepted") {
+    console.warn(
+      `Step transition ${fromStep} → ${result.nextStep} ${resolution}; moving to ${nextStep}.`,
     );
   }
 
-  if (!openai) {
-    openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
+  // Update session notes and step
+  if (notesUpdate && typeof notesUpdate === "object") {
+    session.notes = {
+      ...session.notes,
+      ...notesUpdate,
+    };
+  }
+
+  appendToTranscript(session, {
+    role: "user",
+    text: userMessage,
+    step: fromStep,
+  });
+  appendToTranscript(session, {
+    role: "assistant",
+    text: assistantMessage,
+    step: nextStep,
+  });
+
+  session.currentStep = nextStep;
+  session.updatedAt = new Date().toISOString();
+
+  const done = nextStep === "DONE";
+
+  if (done && !session.endReason) {
+    session.endReason = "completed";
+  }
+
+  await saveSessionState(session);
+
+  trackEvent({
+    ...sessionEventBase(session),
+    type: "turn_completed",
+    fromStep,
+    toStep: nextStep,
+  });
+
+  if (done) {
+    trackEvent({
+      ...sessionEventBase(session),
+      type: "session_ended",
+      endReason: session.endReason ?? "completed",
+      turns: countSessionTurns(session),
     });
   }
 
-  return openai;
+  return {
+    assistantMessage,
+    currentStep: session.currentStep,
+    done,
+    notes: session.notes,
+    endReason: session.endReason,
+  };
 }
 
-interface ChatRequestBody {
-  sessionId: string;
-  userMessage: string;
-  /**
-   * Optional description of what's next in the user's day
-   * (e.g., "client session", "deep work") — only sent on the
-   * first message of a session.
-   */
-  nextActivity?: string;
+/**
+ * Record a session's output rule violations (see `resolveModelOutput`) as
+ * analytics events and in the safety event log.
+ */
+function trackOutputViolation(
+  session: SessionState,
+): (violation: OutputViolation) => void {
+  const step = session.currentStep;
+
+  return ({ ruleId, attempt, matchedText, assistantMessage }) => {
+    trackEvent({
+      ...sessionEventBase(session),
+      type: "output_flagged",
+      step,
+      ruleId,
+      attempt,
+    });
+    void recordSafetyEvent({
+      session,
+      source: "output",
+      ruleId,
+      step,
+      matchedText,
+      text: assistantMessage,
+    });
+  };
 }
 
-interface ChatResponseBody {
-  assistantMessage: string;
-  currentStep: PresenceStep;
-  done: boolean;
+/**
+ * Stream the model's reply as Server-Sent Events.
+ *
+ * `assistantMessage` text is forwarded as `delta` events while the
+ * completion is arriving, one clause at a time: a clause is only sent once
+ * it is complete and the reply up to it passes the ritual rules (see
+ * `checkReplyText`) and output rules, so no part of a rule-breaking clause
+ * is shown. Forwarding stops at the first clause that breaks a rule. Once
+ * the completion ends, the full JSON is parsed and the
+ * session updated exactly as in the non-streaming path, and a final
+ * `done` event carries the response body with the whole reply.
+ *
+ * When `provider` is null (scripted mode), the scripted reply is sent as
+ * a single `delta` followed by `done`. `resources` is only added to the
+ * reply in the `done` event.
+ */
+function streamTurn(
+  session: SessionState,
+  provider: LLMProvider | null,
+  messages: LLMMessage[],
+  userMessage: string,
+  config: PresenceConfig,
+  resources?: string,
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const extractor = createAssistantMessageExtractor();
+      let result: TurnResult;
+
+      try {
+        if (!provider) {
+          result = buildScriptedTurn({ session, userMessage, config });
+          controller.enqueue(
+            encoder.encode(
+              encodeSseEvent("delta", { text: result.assistantMessage }),
+            ),
+          );
+        } else {
+          let textContent = "";
+          let streamedText = "";
+          let sentLength = 0;
+          let withheld = false;
+
+          for await (const piece of provider.stream({
+            messages,
+            jsonMode: true,
+          })) {
+            textContent += piece;
+
+            const delta = extractor.push(piece);
+            if (delta && !withheld) {
+              streamedText += delta;
+
+              // Only complete clauses are checked and shown; the rest
+              // waits for the next clause break
+              const settled = streamedText.slice(
+                0,
+                getSettledLength(streamedText),
+              );
+              if (settled.length <= sentLength) continue;
+
+              // Stop showing a reply once it breaks a ritual or output
+              // rule; the `done` event carries its replacement.
+              if (
+                checkReplyText(settled) !== null ||
+                !checkOutputSafety(settled, config).ok
+              ) {
+                withheld = true;
+                continue;
+              }
+
+              controller.enqueue(
+                encoder.encode(
+                  encodeSseEvent("delta", {
+                    text: settled.slice(sentLength),
+                  }),
+                ),
+              );
+              sentLength = settled.length;
+            }
+          }
+
+          // Invalid or unsafe replies are repaired by re-asking the model;
+          // if that fails too, the scripted step message keeps the ritual
+          // going.
+          result =
+            (await resolveModelOutput({
+              provider,
+              messages,
+              text: textContent,
+              step: session.currentStep,
+              config,
+              onOutputViolation: trackOutputViolation(session),
+            })) ?? buildScriptedTurn({ session, userMessage, config });
+        }
+      } catch (err) {
+        // If the LLM call fails, keep the ritual going with the scripted
+        // engine; the final `done` event replaces any partial text.
+        console.error(
+          `LLM (${provider?.name}) error in /api/chat (stream):`,
+          err,
+        );
+
+        result = buildScriptedTurn({ session, userMessage, config });
+      }
+
+      try {
+        const body = await completeTurn(
+          session,
+          userMessage,
+          result,
+          config,
+          resources,
+        );
+        controller.enqueue(encoder.encode(encodeSseEvent("done", body)));
+      } catch (err) {
+        console.error("Failed to finalize streamed turn in /api/chat:", err);
+        controller.error(err);
+        return;
+      }
+
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
 }
 
 /**
@@ -60,27 +463,32 @@ interface ChatResponseBody {
  * Main API endpoint for the Presence Shift Companion chat.
  *
  * Responsibilities:
- * - Load or initialize the Presence Shift session state.
- * - Run a simple safety / crisis check on the latest user message.
- * - Build a step-specific prompt grounded in the Presence Shift scripts.
- * - Call OpenAI to generate the next assistant message and step transition.
+ * - Enforce per-IP and per-session rate limits, the maximum message
+ *   length and the per-session turn cap (429 / 413 with a `code`).
+ * - Load or initialize the Presence Shift session state, refusing
+ *   messages to paused or ended sessions (409 with a `code`).
+ * - Run the safety / crisis check on the latest user message: a
+ *   "hard_stop" match ends the session, a "check_in" match replies with a
+ *   check-in on the same step, and a "resources" match adds support
+ *   resources to the reply.
+ * - Build a step-specific prompt grounded in the Presence Shift scripts,
+ *   with user text kept out of the instructions and scanned for
+ *   prompt-injection attempts.
+ * - Call the configured LLM provider to generate the next assistant message
+ *   and step transition, or fall back to the scripted engine when no
+ *   provider is available. Replies that break the ritual's output rules
+ *   are regenerated, or replaced with the scripted step message.
  * - Update and persist the session state.
- * - Return the assistant message and step info to the client.
+ * - Return the assistant message and step info to the client, either as
+ *   a single JSON body or, when `stream` is set, as Server-Sent Events.
  */
-export async function POST(
-  req: NextRequest,
-): Promise<NextResponse<ChatResponseBody | { error: string }>> {
-  // Basic environment guard
+export async function POST(req: NextRequest): Promise<Response> {
+  const limits = getChatLimits();
+  const limiters = getChatRateLimiters();
 
-  if (!process.env.OPENAI_API_KEY) {
-    return NextResponse.json(
-      {
-        error:
-          "Server is not configured with an OpenAI API key. Please set OPENAI_API_KEY.",
-      },
-
-      { status: 500 },
-    );
+  const ipLimit = consumeIpLimit(limiters.ip, req.headers);
+  if (!ipLimit.allowed) {
+    return rateLimited(ipLimit.retryAfterSeconds);
   }
 
   let body: ChatRequestBody;
@@ -94,9 +502,11 @@ export async function POST(
     );
   }
 
-  const { sessionId, userMessage, nextActivity } = body;
+  const { sessionId, userMessage, nextActivity, ritualSlug, stream, locale } =
+    body;
+  const breathingReport = parseBreathingReport(body.breathing);
 
-  if (!sessionId || typeof sessionId !== "string") {
+  if (!isValidSessionId(sessionId)) {
     return NextResponse.json(
       { error: "Missing or invalid 'sessionId'." },
       { status: 400 },
@@ -110,178 +520,404 @@ export async function POST(
     );
   }
 
-  // Load existing session or create a new one
-  let session: SessionState =
-    (await getSessionState(sessionId)) ??
-    ({
+  if (
+    ritualSlug !== undefined &&
+    (typeof ritualSlug !== "string" || !isValidRitualSlug(ritualSlug))
+  ) {
+    return NextResponse.json(
+      { error: "Invalid 'ritualSlug'." },
+      { status: 400 },
+    );
+  }
+
+  if (
+    userMessage.length > limits.maxMessageLength ||
+    (typeof nextActivity === "string" &&
+      nextActivity.length > limits.maxMessageLength)
+  ) {
+    return NextResponse.json<ChatLimitErrorBody>(
+      {
+        error: `Messages can be at most ${limits.maxMessageLength} characters.`,
+        code: "message_too_long",
+        maxLength: limits.maxMessageLength,
+      },
+      { status: 413 },
+    );
+  }
+
+  const sessionLimit = limiters.session.consume(sessionId);
+  if (!sessionLimit.allowed) {
+    return rateLimited(sessionLimit.retryAfterSeconds);
+  }
+
+  // Load existing session or create a new one bound to the chosen ritual
+  // and pinned to its active config version
+  let session = await getSessionState(sessionId);
+  const newRitualSlug = ritualSlug ?? getDefaultRitualSlug();
+  let sessionConfig: SessionConfig;
+
+  try {
+    sessionConfig = session
+      ? await getSessionConfig(session)
+      : await getActiveConfig(newRitualSlug);
+  } catch (err) {
+    if (err instanceof RitualNotFoundError) {
+      return NextResponse.json(
+        { error: `Ritual "${newRitualSlug}" not found.` },
+        { status: 404 },
+      );
+    }
+
+    console.error("Failed to load ritual config for /api/chat:", err);
+    return NextResponse.json(
+      {
+        error:
+          "This Presence Shift is temporarily unavailable. Please try again shortly.",
+      },
+      { status: 503 },
+    );
+  }
+
+  if (!session) {
+    session = {
       sessionId,
-      currentStep: "ANSWER",
+      ritualSlug: newRitualSlug,
+      configVersionId: sessionConfig.versionId ?? undefined,
+      locale: resolveLocale({
+        requested: locale,
+        cookie: req.cookies.get(LOCALE_COOKIE)?.value,
+        acceptLanguage: req.headers.get("accept-language"),
+      }),
+      currentStep: getFirstStep(sessionConfig.config),
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
       notes: {},
-    } as SessionState);
+      stepTurns: {},
+      lifetimeTurns: 0,
+      transcript: [],
+    };
+
+    trackEvent({ ...sessionEventBase(session), type: "session_started" });
+  }
+
+  // Paused and ended sessions take no messages until resumed or restarted
+  // through POST /api/chat/action
+  if (session.pausedAt || session.currentStep === "DONE") {
+    return NextResponse.json<ChatStateErrorBody>(
+      session.pausedAt
+        ? {
+            error: "This Presence Shift is paused. Resume it to continue.",
+            code: "paused",
+          }
+        : { error: "This Presence Shift has already ended.", code: "ended" },
+      { status: 409 },
+    );
+  }
+
+  // A language picked mid-session applies from this turn on
+  const requestedLocale = matchLocale(locale);
+  if (requestedLocale) {
+    session.locale = requestedLocale;
+  }
+
+  const config = localizeConfig(sessionConfig.config, session.locale);
+
+  // Resolve the LLM provider. Without one (scripted mode forced on, or
+  // missing credentials), the ritual runs on the scripted engine instead.
+  let provider: LLMProvider | null = null;
+
+  if (!isScriptedModeEnabled()) {
+    try {
+      const ritualConfig = config as Partial<RitualConfigJson>;
+      provider = getLLMProvider(ritualConfig.llm);
+    } catch (err) {
+      console.warn(
+        "LLM provider unavailable; using scripted mode for /api/chat:",
+        err instanceof Error ? err.message : err,
+      );
+    }
+  }
+
+  // While the provider's circuit breaker is open, serve the degraded,
+  // non-LLM step response instead of waiting on a failing provider.
+  if (provider && provider.isAvailable?.() === false) {
+    console.warn(
+      `LLM provider ${provider.name} circuit is open; using scripted mode for /api/chat.`,
+    );
+    provider = null;
+  }
+
+  if (
+    limits.maxTurnsPerSession > 0 &&
+    countLifetimeTurns(session) >= limits.maxTurnsPerSession
+  ) {
+    return NextResponse.json<ChatLimitErrorBody>(
+      {
+        error: "This Presence Shift has reached its maximum length.",
+        code: "turn_limit",
+      },
+      { status: 429 },
+    );
+  }
 
   // If this is the first time we see a nextActivity, store it
   if (!session.nextActivityRaw && typeof nextActivity === "string") {
     session.nextActivityRaw = nextActivity;
   }
 
-  // Run a simple safety / crisis check on the user's message
-  const safety = checkForSafetyFlags(userMessage);
+  // Run the safety / crisis check on the user's message
+  const safety = checkForSafetyFlags(userMessage, config, session.locale);
+
+  if (safety.flagged && safety.rule) {
+    trackEvent({
+      ...sessionEventBase(session),
+      type: "safety_flagged",
+      step: session.currentStep,
+      severity: safety.rule.severity,
+      ruleId: safety.rule.id,
+    });
+    await recordSafetyEvent({
+      session,
+      source: "input",
+      ruleId: safety.rule.id,
+      severity: safety.rule.severity,
+      step: session.currentStep,
+      matchedText: safety.rule.matchedText,
+      text: userMessage,
+    });
+  }
+
+  if (safety.severity === "hard_stop") {
+    const assistantMessage =
+      safety.responseText ?? getMessages(session.locale).server.safetyFallback;
+
+    appendToTranscript(session, {
+      role: "user",
+      text: userMessage,
+      step: session.currentStep,
+    });
+    appendToTranscript(session, {
+      role: "assistant",
+      text: assistantMessage,
+      step: "DONE",
+    });
 
-  if (safety.flagged) {
     // Mark session as DONE and return only the safety response
     session.currentStep = "DONE";
+    session.endReason = "safety";
     session.updatedAt = new Date().toISOString();
     await saveSessionState(session);
 
-    return NextResponse.json(
+    trackEvent({
+      ...sessionEventBase(session),
+      type: "session_ended",
+      endReason: "safety",
+      turns: countSessionTurns(session),
+    });
+
+    return NextResponse.json<ChatResponseBody>(
       {
-        assistantMessage:
-          safety.responseText ??
-          "It sounds like you might be going through something very intense. I’m not able to help with crises or safety concerns. If you’re in immediate danger, please contact your local emergency number or a crisis line right away.",
+        assistantMessage,
         currentStep: session.currentStep,
         done: true,
+        notes: session.notes,
+        endReason: session.endReason,
+      },
+      { status: 200 },
+    );
+  }
+
+  // A check-in replaces this turn: the session stays on its step, and the
+  // step's turn count is left alone
+  if (safety.severity === "check_in") {
+    const assistantMessage =
+      safety.responseText ?? getMessages(session.locale).server.safetyCheckIn;
+
+    appendToTranscript(session, {
+      role: "user",
+      text: userMessage,
+      step: session.currentStep,
+    });
+    appendToTranscript(session, {
+      role: "assistant",
+      text: assistantMessage,
+      step: session.currentStep,
+    });
+
+    session.updatedAt = new Date().toISOString();
+    await saveSessionState(session);
+
+    return NextResponse.json<ChatResponseBody>(
+      {
+        assistantMessage,
+        currentStep: session.currentStep,
+        done: false,
+        notes: session.notes,
       },
       { status: 200 },
     );
   }
 
+  const resources =
+    safety.severity === "resources" ? safety.responseText : undefined;
+
   // On the very first message, capture how their day feels
   if (!session.userFeelingRaw) {
     session.userFeelingRaw = userMessage;
   }
 
-  // Build a Presence Shift prompt based on the current step
-  const prompt = buildPromptForStep({
+  // Injection attempts are not blocked; the prompt tells the model to
+  // treat them as content, and replies are checked against the ritual rules.
+  const injection = detectPromptInjection(
+    [userMessage, session.nextActivityRaw ?? ""].join("\n"),
+  );
+  if (injection.suspected) {
+    console.warn(
+      `Possible prompt injection in session ${sessionId} (${injection.patterns.join(", ")}).`,
+    );
+  }
+
+  // Only steps that offer a breathing timer take a breathing report
+  const currentStep = session.currentStep;
+  const breathing = getRitualSteps(config).some(
+    (step) => step.id === currentStep && step.breathing,
+  )
+    ? breathingReport
+    : null;
+  if (breathing) {
+    trackEvent({
+      ...sessionEventBase(session),
+      type: "breathing_exercise",
+      step: session.currentStep,
+      seconds: breathing.seconds,
+      completed: breathing.completed,
+    });
+  }
+
+  // Build the Presence Shift prompt messages for the current step
+  const messages = buildPromptForStep({
     step: session.currentStep,
     session,
     userMessage,
+    config,
+    injectionSuspected: injection.suspected,
+    breathing,
   });
 
-  let assistantMessage = "";
-
-  let nextStep: PresenceStep = session.currentStep;
-
-  let notesUpdate: Partial<SessionState["notes"]> | undefined;
-
-  try {
-    /**
-
-     * Call the OpenAI Chat Completions API.
-     *
-     * We pass the entire prompt as a single user message and
-     * expect a JSON-only response that we can parse.
-
-     */
-
-    const client = getOpenAIClient();
-
-    const completion = await client.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      temperature: 0.3,
-      response_format: { type: "json_object" },
-    });
-
-    const message = completion.choices[0]?.message;
-    const textContent: string =
-      typeof message?.content === "string" ? message.content : "";
-
-    if (!textContent) {
-      throw new Error("Empty response text from OpenAI.");
-    }
+  if (stream === true) {
+    return streamTurn(
+      session,
+      provider,
+      messages,
+      userMessage,
+      config,
+      resources,
+    );
+  }
 
-    let parsed: {
-      assistantMessage: string;
-      nextStep: PresenceStep;
-      notesUpdate?: Partial<SessionState["notes"]>;
-    };
+  let result: TurnResult;
 
+  if (!provider) {
+    result = buildScriptedTurn({ session, userMessage, config });
+  } else {
     try {
-      parsed = JSON.parse(textContent);
-
-      // Validate required fields
-      if (
-        !parsed.assistantMessage ||
-        typeof parsed.assistantMessage !== "string"
-      ) {
-        throw new Error("Missing or invalid assistantMessage in response");
-      }
+      /**
+       * Call the configured LLM provider.
+       *
+       * Instructions go in the system message and user content in a
+       * separate user message; we expect a JSON-only response that we
+       * can parse.
+       */
+      const textContent = await provider.complete({
+        messages,
+        jsonMode: true,
+      });
+
+      // Invalid or unsafe replies are repaired by re-asking the model; if
+      // that fails too, the scripted step message keeps the ritual going.
+      result =
+        (await resolveModelOutput({
+          provider,
+          messages,
+          text: textContent,
+          step: session.currentStep,
+          config,
+          onOutputViolation: trackOutputViolation(session),
+        })) ?? buildScriptedTurn({ session, userMessage, config });
+    } catch (err) {
+      // If the LLM call fails, keep the ritual going with the scripted engine
+      console.error(`LLM (${provider.name}) error in /api/chat:`, err);
+
+      result = buildScriptedTurn({ session, userMessage, config });
+    }
+  }
 
-      if (!parsed.nextStep || typeof parsed.nextStep !== "string") {
-        throw new Error("Missing or invalid nextStep in response");
-      }
+  const responseBody = await completeTurn(
+    session,
+    userMessage,
+    result,
+    config,
+    resources,
+  );
 
-      // Validate nextStep is a valid PresenceStep
-      const validSteps: PresenceStep[] = [
-        "ANSWER",
-        "INTEND",
-        "FOCUS",
-        "FLOW",
-        "BEGIN",
-        "DONE",
-      ];
-      if (!validSteps.includes(parsed.nextStep as PresenceStep)) {
-        console.warn(
-          `Invalid nextStep "${parsed.nextStep}", defaulting to current step`,
-        );
-        parsed.nextStep = session.currentStep;
-      }
-    } catch (parseError) {
-      console.error("Failed to parse LLM response:", parseError);
-      console.error("Raw response:", textContent);
-
-      // If parsing fails, fallback to treating the raw text
-      // as the assistant message and end the session.
-      parsed = {
-        assistantMessage: textContent.substring(0, 500), // Limit length
-        nextStep: "DONE",
-      } as {
-        assistantMessage: string;
-        nextStep: PresenceStep;
-      };
-    }
+  return NextResponse.json(responseBody, { status: 200 });
+}
 
-    assistantMessage = parsed.assistantMessage.trim();
-    nextStep = (parsed.nextStep as PresenceStep) || session.currentStep;
-    notesUpdate = parsed.notesUpdate;
-  } catch (err) {
-    // If the OpenAI call fails, gracefully end the session
-    console.error("OpenAI error in /api/chat:", err);
+/**
+ * GET /api/chat?sessionId=...&locale=...
+ *
+ * Returns the transcript, current step and ritual steps of an existing
+ * session so the Shift page can rehydrate itself after a refresh or
+ * accidental tab close. Steps are labelled in `locale` when given (the
+ * language the page is shown in), otherwise in the session's language.
+ * Responds with 404 if the session does not exist or has expired.
+ */
+export async function GET(
+  req: NextRequest,
+): Promise<NextResponse<SessionSnapshotBody | { error: string }>> {
+  const sessionId = req.nextUrl.searchParams.get("sessionId");
 
-    assistantMessage =
-      "Something went wrong on my side, so I’ll pause this Presence Shift here. You can refresh the page to begin again later if you’d like.";
-    nextStep = "DONE";
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Missing 'sessionId' query parameter." },
+      { status: 400 },
+    );
   }
 
-  // Update session notes and step
-  if (notesUpdate && typeof notesUpdate === "object") {
-    session.notes = {
-      ...session.notes,
-      ...notesUpdate,
-    };
-  }
+  const session = await getSessionState(sessionId);
 
-  session.currentStep = nextStep;
-  session.updatedAt = new Date().toISOString();
+  if (!session) {
+    return NextResponse.json({ error: "Session not found." }, { status: 404 });
+  }
 
-  const done = nextStep === "DONE";
+  let steps: RitualStep[] | undefined;
 
-  await saveSessionState(session);
+  try {
+    const { config } = await getSessionConfig(session);
+    const labelLocale =
+      matchLocale(req.nextUrl.searchParams.get("locale")) ?? session.locale;
+    steps = getRitualSteps(localizeConfig(config, labelLocale));
+  } catch (err) {
+    console.warn(
+      `Could not load the config of session ${sessionId}:`,
+      err instanceof Error ? err.message : err,
+    );
+  }
 
   return NextResponse.json(
     {
-      assistantMessage:
-        assistantMessage ||
-        "I’ll pause here for now. You can refresh the page to begin a new Presence Shift when you’re ready.",
+      sessionId: session.sessionId,
+      ritualSlug: session.ritualSlug ?? getDefaultRitualSlug(),
+      steps,
+      locale: session.locale ?? getDefaultLocale(),
       currentStep: session.currentStep,
-      done,
+      done: session.currentStep === "DONE",
+      paused: Boolean(session.pausedAt),
+      nextActivity: session.nextActivityRaw,
+      notes: session.notes ?? {},
+      transcript: (session.transcript ?? []).map(
+        ({ role, text, step, timestamp }) => ({ role, text, step, timestamp }),
+      ),
     },
     { status: 200 },
   );
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getSessionState } from "@/lib/sessionStore";
+
+import { getSessionConfig } from "@/lib/config";
+
+import { localizeConfig } from "@/lib/i18n";
+
+import { buildSessionSummary, type SessionSummary } from "@/lib/summary";
+
+/**
+ * GET /api/chat/summary?sessionId=...
+ *
+ * Returns the end-of-shift summary for a session, built from the notes
+ * the Companion captured at each step of the session's ritual (for the
+ * default ritual: what the user named, their intention, focus practice
+ * and chosen first action), in the session's language.
+ *
+ * Responds with 404 if the session does not exist, has expired, or was
+ * ended by a safety response.
+ */
+export async function GET(
+  req: NextRequest,
+): Promise<NextResponse<SessionSummary | { error: string }>> {
+  const sessionId = req.nextUrl.searchParams.get("sessionId");
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Missing 'sessionId' query parameter." },
+      { status: 400 },
+    );
+  }
+
+  const session = await getSessionState(sessionId);
+  let summary: SessionSummary | null = null;
+
+  if (session) {
+    try {
+      const { config } = await getSessionConfig(session);
+      summary = buildSessionSummary(
+        session,
+        localizeConfig(config, session.locale),
+      );
+    } catch (err) {
+      console.error("Failed to load ritual config for /api/chat/summary:", err);
+      return NextResponse.json(
+        { error: "The summary is temporarily unavailable." },
+        { status: 503 },
+      );
+    }
+  }
+
+  if (!summary) {
+    return NextResponse.json(
+      { error: "No summary is available for this session." },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json(summary, { status: 200 });
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+
+import {
+  getCircuitBreakerSnapshots,
+  type CircuitBreakerSnapshot,
+} from "@/lib/llm";
+
+interface HealthResponseBody {
+  /**
+   * "degraded" when any LLM provider's circuit breaker is not closed, in
+   * which case affected sessions are served by the scripted engine.
+   */
+  status: "ok" | "degraded";
+  llm: CircuitBreakerSnapshot[];
+}
+
+/**
+ * GET /api/health
+ *
+ * Health and monitoring endpoint. Reports the circuit breaker state of
+ * every LLM provider used by this server instance since it started.
+ * Always responds with 200 so load balancers keep routing traffic while
+ * the Companion runs in degraded (scripted) mode.
+ */
+export async function GET(): Promise<NextResponse<HealthResponseBody>> {
+  const llm = getCircuitBreakerSnapshots();
+  const degraded = llm.some((breaker) => breaker.state !== "closed");
+
+  return NextResponse.json(
+    { status: degraded ? "degraded" : "ok", llm },
+    { status: 200, headers: { "Cache-Control": "no-store" } },
+  );
+}
@@ -1,6 +1,8 @@
 import "../styles/globals.css";
 import type { ReactNode } from "react";
 
+import { getRequestLocale } from "@/lib/requestLocale";
+
 export const metadata = {
   title: "Presence Shift Companion",
   description:
@@ -10,9 +12,13 @@ export const metadata = {
   },
 };
 
-export default function RootLayout({ children }: { children: ReactNode }) {
+export default async function RootLayout({
+  children,
+}: {
+  children: ReactNode;
+}) {
   return (
-    <html lang="en">
+    <html lang={await getRequestLocale()}>
       <body className="bg-slate-100 text-slate-900">{children}</body>
     </html>
   );
@@ -1,44 +1,132 @@
 import Link from "next/link";
 
-export default function HomePage() {
+import { getPresenceConfig, usesDatabaseConfig } from "@/lib/config";
+import { listActiveRituals, type RitualSummary } from "@/lib/configStore";
+import { localizeConfig } from "@/lib/i18n";
+import { getMessages } from "@/lib/messages";
+import { getRequestLocale } from "@/lib/requestLocale";
+import { getRitualSteps } from "@/lib/stepMachine";
+
+import LocalePicker from "./LocalePicker";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Rituals users can choose from. With bundled configs, or when the
+ * database is unreachable, only the default ritual at /shift is offered.
+ */
+async function getRitualChoices(): Promise<RitualSummary[]> {
+  if (!usesDatabaseConfig()) {
+    return [];
+  }
+
+  try {
+    return await listActiveRituals();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * A ritual's step labels in `locale` ("Answer · Intend · …"), from its
+ * configured `sequence`, or null if its config cannot be loaded.
+ */
+async function getStepList(
+  ritualSlug: string | undefined,
+  locale: string,
+): Promise<string | null> {
+  try {
+    const config = localizeConfig(await getPresenceConfig(ritualSlug), locale);
+    return getRitualSteps(config)
+      .map((step) => step.label)
+      .join(" · ");
+  } catch {
+    return null;
+  }
+}
+
+export default async function HomePage() {
+  const rituals = await getRitualChoices();
+  const locale = await getRequestLocale();
+  const t = getMessages(locale).home;
+
+  // One step list per ritual offered, or the default ritual's
+  const stepLists = await Promise.all(
+    (rituals.length > 0
+      ? rituals.map((ritual) => ritual.slug)
+      : [undefined]
+    ).map((slug) => getStepList(slug, locale)),
+  );
+
   return (
     <main className="h-full flex items-center justify-center px-4 bg-gradient-to-b from-slate-50 to-slate-100">
       <div className="w-full max-w-md space-y-6 bg-white/80 backdrop-blur border border-slate-200 rounded-3xl p-6 shadow-sm">
-        <h1 className="text-2xl font-semibold tracking-tight text-slate-900">
-          The Presence Shift Companion
-        </h1>
-
-        <p className="text-sm text-slate-700 leading-relaxed">
-          A brief, guided 5-step ritual to help you shift your presence for
-          what&apos;s next in your day. Designed for real, in-between moments—
-          before a session, a deep work block, or a transition at home.
-        </p>
+        <div className="flex items-start justify-between gap-3">
+          <h1 className="text-2xl font-semibold tracking-tight text-slate-900">
+            {t.title}
+          </h1>
+          <LocalePicker locale={locale} />
+        </div>
+
+        <p className="text-sm text-slate-700 leading-relaxed">{t.intro}</p>
 
         <p className="text-sm text-slate-700">
-          You&apos;ll be invited through:{" "}
-          <span className="font-medium">
-            Answer · Intend · Focus · Flow · Begin
-          </span>
-          . Most Presence Shifts take about 2–5 minutes.
+          {rituals.length <= 1 && stepLists[0] && (
+            <>
+              {t.invitedThrough}{" "}
+              <span className="font-medium">{stepLists[0]}</span>.{" "}
+            </>
+          )}
+          {t.duration}
         </p>
 
-        <Link
-          href="/shift"
-          className="inline-flex items-center justify-center rounded-full bg-blue-600 text-white px-5 py-2 text-sm font-medium shadow-sm hover:bg-blue-700 transition-colors"
-        >
-          Begin a Presence Shift
-        </Link>
+        {rituals.length > 1 ? (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-slate-900">
+              {t.chooseRitual}
+            </p>
+            <ul className="space-y-2">
+              {rituals.map((ritual, index) => (
+                <li key={ritual.slug}>
+                  <Link
+                    href={`/shift/${encodeURIComponent(ritual.slug)}`}
+                    className="block rounded-2xl border border-slate-200 bg-white px-4 py-3 shadow-sm hover:border-blue-300 hover:bg-blue-50 transition-colors"
+                  >
+                    <span className="block text-sm font-medium text-slate-900">
+                      {ritual.name}
+                    </span>
+                    {ritual.description && (
+                      <span className="block text-xs text-slate-600">
+                        {ritual.description}
+                      </span>
+                    )}
+                    {stepLists[index] && (
+                      <span className="block text-[11px] text-slate-500 mt-1">
+                        {stepLists[index]}
+                      </span>
+                    )}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <Link
+            href={
+              rituals.length === 1
+                ? `/shift/${encodeURIComponent(rituals[0].slug)}`
+                : "/shift"
+            }
+            className="inline-flex items-center justify-center rounded-full bg-blue-600 text-white px-5 py-2 text-sm font-medium shadow-sm hover:bg-blue-700 transition-colors"
+          >
+            {t.begin}
+          </Link>
+        )}
 
         <div className="space-y-1 text-[11px] text-slate-500">
-          <p>
-            This Companion is not a substitute for therapy, medical care, or
-            crisis support.
-          </p>
-
-          <p>
-            If you are in crisis or concerned about your safety, please contact
-            your local emergency number or a crisis line in your area.
-          </p>
+          <p>{t.notTherapy}</p>
+
+          <p>{t.crisis}</p>
         </div>
       </div>
     </main>
@@ -0,0 +1,154 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+import {
+  getBreathingPlan,
+  type BreathingConfig,
+  type BreathingPhaseName,
+  type BreathingReport,
+} from "@/lib/breathing";
+import type { Messages } from "@/lib/messages";
+
+/**
+ * Scale of the breathing circle at the end of each phase: it grows while
+ * breathing in and shrinks while breathing out.
+ */
+const PHASE_SCALE: Record<BreathingPhaseName, number> = {
+  inhale: 1,
+  hold: 1,
+  exhale: 0.55,
+  rest: 0.55,
+};
+
+const TICK_MS = 250;
+
+/**
+ * A guided breathing timer for steps with a `breathing` config.
+ *
+ * The circle eases between sizes over each phase; with reduced motion it
+ * changes size without animating. The current phase is announced to screen
+ * readers as it changes. Calls `onFinish` when the timer runs out or the
+ * user stops it. `messages` is the timer's copy in the page's language.
+ */
+export default function BreathingTimer({
+  config,
+  disabled = false,
+  onFinish,
+  messages,
+}: {
+  config: BreathingConfig;
+  disabled?: boolean;
+  onFinish: (report: BreathingReport) => void;
+  messages: Messages["breathing"];
+}) {
+  const plan = getBreathingPlan(config);
+  const breathSeconds = plan.totalSeconds / plan.breaths;
+
+  const [running, setRunning] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const startedAt = useRef(0);
+  const onFinishRef = useRef(onFinish);
+  onFinishRef.current = onFinish;
+
+  useEffect(() => {
+    if (!running) return;
+
+    const interval = setInterval(() => {
+      const elapsed = Date.now() - startedAt.current;
+
+      if (elapsed >= plan.totalSeconds * 1000) {
+        setRunning(false);
+        setElapsedMs(0);
+        onFinishRef.current({
+          seconds: plan.totalSeconds,
+          completed: true,
+        });
+        return;
+      }
+
+      setElapsedMs(elapsed);
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [running, plan.totalSeconds]);
+
+  function start() {
+    startedAt.current = Date.now();
+    setElapsedMs(0);
+    setRunning(true);
+  }
+
+  function stop() {
+    const seconds = Math.round((Date.now() - startedAt.current) / 1000);
+    setRunning(false);
+    setElapsedMs(0);
+    onFinish({ seconds, completed: false });
+  }
+
+  // Where in the current breath the timer is
+  let offset = (elapsedMs / 1000) % breathSeconds;
+  let phaseIndex = 0;
+  while (
+    phaseIndex < plan.phases.length - 1 &&
+    offset >= plan.phases[phaseIndex].seconds
+  ) {
+    offset -= plan.phases[phaseIndex].seconds;
+    phaseIndex += 1;
+  }
+
+  const phase = plan.phases[phaseIndex];
+  const breath = Math.floor(elapsedMs / 1000 / breathSeconds) + 1;
+  const remainingSeconds = Math.ceil(plan.totalSeconds - elapsedMs / 1000);
+  const scale = running ? PHASE_SCALE[phase.name] : 0.55;
+
+  return (
+    <section
+      aria-label={messages.regionLabel}
+      className="flex items-center gap-4 rounded-2xl bg-white border border-slate-200 px-4 py-3 shadow-sm"
+    >
+      <div
+        aria-hidden="true"
+        className="flex items-center justify-center w-16 h-16 shrink-0"
+      >
+        <div
+          className="w-16 h-16 rounded-full bg-blue-100 border-2 border-blue-400 transition-transform ease-in-out motion-reduce:transition-none"
+          style={{
+            transform: `scale(${scale})`,
+            transitionDuration: running ? `${phase.seconds}s` : "500ms",
+          }}
+        />
+      </div>
+
+      <div className="flex-1 min-w-0 space-y-1">
+        <p aria-live="polite" className="text-sm font-medium text-slate-900">
+          {running ? messages.phases[phase.name] : messages.idle}
+        </p>
+        <p role="timer" className="text-[11px] text-slate-500">
+          {running
+            ? messages.progress(breath, plan.breaths, remainingSeconds)
+            : messages.overview(plan.breaths, plan.totalSeconds)}
+        </p>
+      </div>
+
+      {running ? (
+        <button
+          type="button"
+          onClick={stop}
+          className="px-3 py-1 rounded-full border border-slate-300 text-[11px] text-slate-700 bg-white hover:bg-slate-100"
+        >
+          {messages.stop}
+        </button>
+      ) : (
+        <button
+          type="button"
+          onClick={start}
+          disabled={disabled}
+          className="px-3 py-1 rounded-full bg-blue-600 text-white text-[11px] font-medium disabled:opacity-40"
+        >
+          {config.label ?? messages.start}
+        </button>
+      )}
+    </section>
+  );
+}
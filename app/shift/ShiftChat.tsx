@@ -0,0 +1,997 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+import type { BreathingConfig, BreathingReport } from "@/lib/breathing";
+import { DEFAULT_VOICE_SETTINGS, type VoiceSettings } from "@/lib/voice";
+import type { Locale } from "@/lib/i18n";
+import { getMessages } from "@/lib/messages";
+
+import LocalePicker from "../LocalePicker";
+import BreathingTimer from "./BreathingTimer";
+import StepProgress from "./StepProgress";
+import { useSpeech } from "./useSpeech";
+
+type Message = {
+  from: "user" | "assistant" | "system";
+  text: string;
+};
+
+type RitualStep = {
+  id: string;
+  label: string;
+  breathing?: BreathingConfig;
+};
+
+type SessionSnapshot = {
+  sessionId: string;
+  steps?: RitualStep[];
+  currentStep: string;
+  done: boolean;
+  paused?: boolean;
+  nextActivity?: string;
+  notes?: Record<string, string | undefined>;
+  transcript: { role: "user" | "assistant"; text: string }[];
+};
+
+type ShiftSummary = {
+  nextActivity?: string;
+  items: { key: string; label: string; text: string }[];
+  text: string;
+};
+
+/**
+ * localStorage key for the in-progress session, so a refresh or an
+ * accidental tab close can resume the same Presence Shift. Each ritual
+ * keeps its own session.
+ */
+const SESSION_STORAGE_KEY = "presenceShift.sessionId";
+
+function sessionStorageKey(ritualSlug?: string): string {
+  return ritualSlug
+    ? `${SESSION_STORAGE_KEY}.${ritualSlug}`
+    : SESSION_STORAGE_KEY;
+}
+
+/**
+ * localStorage key for whether the user turned voice mode on.
+ */
+const VOICE_MODE_STORAGE_KEY = "presenceShift.voiceMode";
+
+type ChatResponse = {
+  assistantMessage?: string;
+  currentStep?: string;
+  done?: boolean;
+  notes?: Record<string, string | undefined>;
+  endReason?: "completed" | "skipped" | "safety" | "user_ended";
+  error?: string;
+  /**
+   * Set on 429 / 413 responses from the chat API's abuse protections, and
+   * on 409 responses for paused or ended sessions.
+   */
+  code?:
+    | "rate_limited"
+    | "turn_limit"
+    | "message_too_long"
+    | "paused"
+    | "ended";
+  retryAfterSeconds?: number;
+  maxLength?: number;
+};
+
+type SessionAction = "restart" | "skip" | "pause" | "resume" | "end";
+
+/**
+ * Response from /api/chat/action.
+ */
+type ActionResponse = ChatResponse & {
+  paused?: boolean;
+};
+
+/**
+ * Read a Server-Sent Events reply from /api/chat.
+ *
+ * Calls `onDelta` with each fragment of the assistant message as it
+ * arrives and resolves with the final response body from the `done` event.
+ */
+async function readChatStream(
+  res: Response,
+  onDelta: (text: string) => void,
+): Promise<ChatResponse> {
+  if (!res.body) {
+    throw new Error("Streaming response has no body");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let final: ChatResponse | null = null;
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      let event = "message";
+      let data = "";
+      for (const line of frame.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data += line.slice(5).trim();
+      }
+      if (!data) continue;
+
+      const payload = JSON.parse(data);
+      if (event === "delta" && typeof payload.text === "string") {
+        onDelta(payload.text);
+      } else if (event === "done") {
+        final = payload as ChatResponse;
+      }
+    }
+  }
+
+  if (!final) {
+    throw new Error("Stream ended before the reply was complete");
+  }
+
+  return final;
+}
+
+/**
+ * The Presence Shift chat. Runs the ritual named by `ritualSlug`, or the
+ * server's default ritual when it is omitted. `steps` are the steps of
+ * the ritual's active config; a resumed session shows the steps of the
+ * config it was started with instead.
+ *
+ * `voice` configures voice mode (push-to-talk input and spoken replies),
+ * which is offered when the ritual enables it and the browser supports
+ * the Web Speech APIs.
+ *
+ * The page is shown in `locale`, which is also sent with each message so
+ * the session (and the Companion's replies) follow the language picker.
+ */
+export default function ShiftChat({
+  ritualSlug,
+  locale,
+  steps: initialSteps = [],
+  voice = DEFAULT_VOICE_SETTINGS,
+}: {
+  ritualSlug?: string;
+  locale: Locale;
+  steps?: RitualStep[];
+  voice?: VoiceSettings;
+}) {
+  const t = getMessages(locale);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [steps, setSteps] = useState<RitualStep[]>(initialSteps);
+  const [currentStep, setCurrentStep] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string | undefined>>({});
+  const [endedForSafety, setEndedForSafety] = useState(false);
+  const [paused, setPaused] = useState(false);
+  const [actionPending, setActionPending] = useState(false);
+  const [breathingReport, setBreathingReport] =
+    useState<BreathingReport | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [input, setInput] = useState("");
+  const [nextActivity, setNextActivity] = useState("");
+  const [hasStarted, setHasStarted] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [done, setDone] = useState(false);
+  const [summary, setSummary] = useState<ShiftSummary | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [voiceMode, setVoiceMode] = useState(false);
+  const messagesEndRef = useRef<HTMLDivElement | null>(null);
+  const speech = useSpeech(voice);
+  const voiceAvailable =
+    voice.enabled &&
+    (speech.recognitionSupported || speech.synthesisSupported);
+
+  // Restore the user's voice mode choice
+  useEffect(() => {
+    setVoiceMode(window.localStorage.getItem(VOICE_MODE_STORAGE_KEY) === "on");
+  }, []);
+
+  // Resume the stored session if it is still in progress; otherwise create
+  // a new client-side session id when the page first mounts
+  useEffect(() => {
+    if (sessionId || typeof crypto === "undefined") return;
+
+    let cancelled = false;
+
+    async function restoreOrCreateSession() {
+      const storageKey = sessionStorageKey(ritualSlug);
+      const storedId = window.localStorage.getItem(storageKey);
+
+      if (storedId) {
+        try {
+          const res = await fetch(
+            `/api/chat?sessionId=${encodeURIComponent(storedId)}&locale=${locale}`,
+          );
+
+          if (res.ok) {
+            const snapshot: SessionSnapshot = await res.json();
+
+            if (!snapshot.done && snapshot.transcript.length > 0) {
+              if (cancelled) return;
+
+              setMessages([
+                ...snapshot.transcript.map((entry) => ({
+                  from: entry.role,
+                  text: entry.text,
+                })),
+                {
+                  from: "system",
+                  text: t.shift.welcomeBack,
+                },
+              ]);
+              setNextActivity(snapshot.nextActivity ?? "");
+              if (snapshot.steps && snapshot.steps.length > 0) {
+                setSteps(snapshot.steps);
+              }
+              setCurrentStep(snapshot.currentStep);
+              setNotes(snapshot.notes ?? {});
+              setPaused(Boolean(snapshot.paused));
+              setHasStarted(true);
+              setSessionId(storedId);
+              return;
+            }
+          }
+        } catch {
+          // Fall through and start a fresh session
+        }
+      }
+
+      if (cancelled) return;
+
+      const freshId = crypto.randomUUID();
+      window.localStorage.setItem(storageKey, freshId);
+      setSessionId(freshId);
+    }
+
+    void restoreOrCreateSession();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, ritualSlug]);
+
+  // Relabel the steps when the user picks another language. The page's
+  // steps come from the ritual's active config; a session in progress
+  // keeps the steps of its own config.
+  useEffect(() => {
+    if (!sessionId || !hasStarted) {
+      setSteps(initialSteps);
+      return;
+    }
+
+    let cancelled = false;
+
+    fetch(
+      `/api/chat?sessionId=${encodeURIComponent(sessionId)}&locale=${locale}`,
+    )
+      .then((res) => (res.ok ? res.json() : null))
+      .then((snapshot: SessionSnapshot | null) => {
+        if (!cancelled && snapshot?.steps && snapshot.steps.length > 0) {
+          setSteps(snapshot.steps);
+        }
+      })
+      .catch(() => {
+        // Keep the current labels
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // Only a language change should relabel the steps
+  }, [locale]);
+
+  // Auto-scroll to the latest message or loading indicator
+  useEffect(() => {
+    if (messagesEndRef.current) {
+      messagesEndRef.current.scrollIntoView({ behavior: "smooth" });
+    }
+  }, [messages, loading, done, summary]);
+
+  // Load the end-of-shift summary once the ritual is complete
+  useEffect(() => {
+    if (!done || !sessionId) return;
+
+    let cancelled = false;
+
+    fetch(`/api/chat/summary?sessionId=${encodeURIComponent(sessionId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: ShiftSummary | null) => {
+        if (!cancelled && data && data.items.length > 0) {
+          setSummary(data);
+        }
+      })
+      .catch(() => {
+        // The summary is optional; the shift is complete either way
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [done, sessionId]);
+
+  function toggleVoiceMode() {
+    const next = !voiceMode;
+    setVoiceMode(next);
+    window.localStorage.setItem(VOICE_MODE_STORAGE_KEY, next ? "on" : "off");
+    if (!next) {
+      speech.cancelSpeech();
+    }
+  }
+
+  /**
+   * Read a Companion reply aloud when voice mode is on.
+   */
+  function speakReply(text: string) {
+    if (voiceMode && voiceAvailable) {
+      speech.speak(text);
+    }
+  }
+
+  /**
+   * Push-to-talk: listen while the talk button is held, then send what
+   * was heard.
+   */
+  function startTalking() {
+    if (speech.listening || disableInput) return;
+
+    speech.startListening({
+      onResult: (text) => setInput(text),
+      onEnd: (text) => {
+        if (text) {
+          void sendMessage(text);
+        }
+      },
+      onError: (error) => {
+        setMessages((prev) => [
+          ...prev,
+          {
+            from: "system",
+            text:
+              error === "not-allowed" || error === "service-not-allowed"
+                ? t.voice.micBlocked
+                : t.voice.notHeard,
+          },
+        ]);
+      },
+    });
+  }
+
+  async function copySummary() {
+    if (!summary) return;
+
+    try {
+      await navigator.clipboard.writeText(summary.text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setCopied(false);
+    }
+  }
+
+  /**
+   * Apply an in-ritual control (restart, skip, pause, resume or end) to
+   * the current session.
+   */
+  async function runAction(action: SessionAction) {
+    if (!sessionId || loading || actionPending) return;
+
+    const confirmation =
+      action === "restart" && !done
+        ? t.shift.confirmRestart
+        : action === "end"
+          ? t.shift.confirmEnd
+          : null;
+
+    if (confirmation && !window.confirm(confirmation)) return;
+
+    speech.cancelSpeech();
+    setActionPending(true);
+
+    try {
+      const res = await fetch("/api/chat/action", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId, action }),
+      });
+      const data: ActionResponse = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        if (data.code === "ended") {
+          setDone(true);
+        } else if (data.code === "paused") {
+          setPaused(true);
+        }
+
+        setMessages((prev) => [
+          ...prev,
+          {
+            from: "system",
+            text:
+              res.status === 429
+                ? t.shift.slowDown(data.retryAfterSeconds ?? 60)
+                : data.code === "ended"
+                  ? t.shift.alreadyEnded
+                  : data.code === "paused"
+                    ? t.shift.pausedRefused
+                    : t.shift.actionFailed,
+          },
+        ]);
+        return;
+      }
+
+      if (action === "restart") {
+        // The session starts over with the same ID, from the intro card
+        setMessages([]);
+        setNotes({});
+        setCurrentStep(null);
+        setSummary(null);
+        setNextActivity("");
+        setInput("");
+        setHasStarted(false);
+        setDone(false);
+        setEndedForSafety(false);
+        setPaused(false);
+        setBreathingReport(null);
+        return;
+      }
+
+      const assistantMessage = data.assistantMessage;
+      if (assistantMessage) {
+        setMessages((prev) => [
+          ...prev,
+          { from: "assistant", text: assistantMessage },
+        ]);
+        speakReply(assistantMessage);
+      }
+
+      if (action === "pause" || action === "resume") {
+        setMessages((prev) => [
+          ...prev,
+          {
+            from: "system",
+            text:
+              action === "pause" ? t.shift.paused : t.shift.resumed,
+          },
+        ]);
+      }
+
+      setPaused(Boolean(data.paused));
+      if (data.currentStep) {
+        if (data.currentStep !== currentStep) {
+          setBreathingReport(null);
+        }
+        setCurrentStep(data.currentStep);
+      }
+      if (data.notes) {
+        setNotes(data.notes);
+      }
+      if (data.done) {
+        setDone(true);
+      }
+    } catch {
+      setMessages((prev) => [
+        ...prev,
+        {
+          from: "system",
+          text: t.shift.actionFailed,
+        },
+      ]);
+    } finally {
+      setActionPending(false);
+    }
+  }
+
+  /**
+   * Keep the result of a breathing exercise to send with the user's next
+   * message, so the Companion can acknowledge it.
+   */
+  function finishBreathing(report: BreathingReport) {
+    setBreathingReport(report);
+    setMessages((prev) => [
+      ...prev,
+      {
+        from: "system",
+        text: report.completed
+          ? t.shift.breathingComplete
+          : t.shift.breathingStopped,
+      },
+    ]);
+  }
+
+  async function sendMessage(text = input) {
+    if (!text.trim() || !sessionId || loading || done || paused) return;
+
+    const userText = text.trim();
+    setMessages((prev) => [...prev, { from: "user", text: userText }]);
+    setInput("");
+    setLoading(true);
+
+    try {
+      const res = await fetch("/api/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sessionId,
+          userMessage: userText,
+          // Only send nextActivity on the first request
+          nextActivity: hasStarted ? undefined : nextActivity || undefined,
+          ritualSlug,
+          stream: true,
+          breathing: breathingReport ?? undefined,
+          locale,
+        }),
+      });
+
+      if (res.status === 409) {
+        const state: ChatResponse = await res.json().catch(() => ({}));
+
+        // Take the message back; it can be sent once the session resumes
+        setMessages((prev) => [
+          ...prev.slice(0, -1),
+          {
+            from: "system",
+            text:
+              state.code === "paused"
+                ? t.shift.pausedRefused
+                : t.shift.alreadyEnded,
+          },
+        ]);
+        if (state.code === "paused") {
+          setPaused(true);
+          setInput(userText);
+        } else {
+          setDone(true);
+        }
+        return;
+      }
+
+      if (res.status === 429 || res.status === 413) {
+        const limit: ChatResponse = await res
+          .json()
+          .catch(() => ({ code: "rate_limited" }));
+
+        if (limit.code === "turn_limit") {
+          setMessages((prev) => [
+            ...prev,
+            {
+              from: "system",
+              text: t.shift.turnLimit,
+            },
+          ]);
+          setDone(true);
+          return;
+        }
+
+        // Take the message back so the user can resend or shorten it
+        setMessages((prev) => [
+          ...prev.slice(0, -1),
+          {
+            from: "system",
+            text:
+              limit.code === "message_too_long"
+                ? t.shift.messageTooLong(limit.maxLength ?? 0)
+                : t.shift.slowDownResend(limit.retryAfterSeconds ?? 60),
+          },
+        ]);
+        setInput(userText);
+        return;
+      }
+
+      if (!res.ok) {
+        throw new Error(`Request failed with status ${res.status}`);
+      }
+
+      setBreathingReport(null);
+
+      let streamed = false;
+      const isStream = (res.headers.get("Content-Type") ?? "").includes(
+        "text/event-stream",
+      );
+
+      const data: ChatResponse = isStream
+        ? await readChatStream(res, (text) => {
+            // Show the reply bubble as soon as the first words arrive
+            setLoading(false);
+            const isFirstDelta = !streamed;
+            streamed = true;
+            setMessages((prev) => {
+              if (isFirstDelta) {
+                return [...prev, { from: "assistant", text }];
+              }
+              const last = prev[prev.length - 1];
+              return [
+                ...prev.slice(0, -1),
+                { ...last, text: last.text + text },
+              ];
+            });
+          })
+        : await res.json();
+
+      if (data.error) {
+        setMessages((prev) => [
+          ...prev,
+          {
+            from: "system",
+            text: t.shift.startFailed,
+          },
+        ]);
+        setDone(true);
+        return;
+      }
+
+      if (data.assistantMessage) {
+        const finalText = data.assistantMessage;
+        // Replace the streamed bubble with the final, trimmed text
+        setMessages((prev) =>
+          streamed
+            ? [...prev.slice(0, -1), { from: "assistant", text: finalText }]
+            : [...prev, { from: "assistant", text: finalText }],
+        );
+        speakReply(finalText);
+      }
+
+      if (data.currentStep) {
+        setCurrentStep(data.currentStep);
+      }
+      if (data.notes) {
+        setNotes(data.notes);
+      }
+
+      if (data.done) {
+        setDone(true);
+        setEndedForSafety(data.endReason === "safety");
+      }
+
+      setHasStarted(true);
+    } catch (error) {
+      setMessages((prev) => [
+        ...prev,
+        {
+          from: "system",
+          text: t.shift.cannotContinue,
+        },
+      ]);
+      setDone(true);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!input.trim() || loading || done || paused) return;
+    void sendMessage();
+  }
+
+  const showIntro = !hasStarted;
+  const breathing = hasStarted
+    ? steps.find((step) => step.id === currentStep)?.breathing
+    : undefined;
+  const disableInput = loading || done || paused || !sessionId;
+  const controlClass =
+    "px-3 py-1 rounded-full border border-slate-300 text-[11px] text-slate-700 bg-white hover:bg-slate-100 disabled:opacity-40";
+
+  return (
+    <main className="flex flex-col h-full">
+      {/* Header */}
+      <header className="flex items-center justify-between px-4 py-3 border-b border-slate-200 bg-white">
+        <div className="flex flex-col">
+          <span className="text-sm font-semibold tracking-tight text-slate-900">
+            {t.shift.title}
+          </span>
+          <span className="text-[11px] text-slate-500">
+            {t.shift.subtitle(steps.length)}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-1.5">
+          {voiceAvailable && (
+            <button
+              type="button"
+              aria-pressed={voiceMode}
+              className={controlClass}
+              onClick={toggleVoiceMode}
+            >
+              {voiceMode ? t.voice.on : t.voice.off}
+            </button>
+          )}
+          <LocalePicker locale={locale} />
+        </div>
+      </header>
+
+      {/* Progress through the ritual's steps; hidden after a safety
+          response, where "progress" would be the wrong message */}
+      {steps.length > 0 && !endedForSafety && (
+        <StepProgress
+          steps={steps}
+          currentStep={currentStep}
+          notes={notes}
+          label={t.shift.progressLabel}
+        />
+      )}
+
+      {/* In-ritual controls, once the session exists on the server */}
+      {hasStarted && !done && (
+        <div className="flex flex-wrap justify-center gap-1.5 px-4 py-2 border-b border-slate-200 bg-white">
+          <button
+            type="button"
+            className={controlClass}
+            disabled={loading || actionPending}
+            onClick={() => runAction(paused ? "resume" : "pause")}
+          >
+            {paused ? t.shift.resume : t.shift.pause}
+          </button>
+          <button
+            type="button"
+            className={controlClass}
+            disabled={loading || actionPending || paused}
+            onClick={() => runAction("skip")}
+          >
+            {t.shift.skip}
+          </button>
+          <button
+            type="button"
+            className={controlClass}
+            disabled={loading || actionPending}
+            onClick={() => runAction("restart")}
+          >
+            {t.shift.restart}
+          </button>
+          <button
+            type="button"
+            className={controlClass}
+            disabled={loading || actionPending}
+            onClick={() => runAction("end")}
+          >
+            {t.shift.end}
+          </button>
+        </div>
+      )}
+
+      {/* Messages area */}
+      <section className="flex-1 overflow-y-auto px-4 py-3 space-y-4 bg-slate-50">
+        {/* Intro card (only before first assistant response) */}
+        {showIntro && (
+          <div className="rounded-2xl bg-white border border-slate-200 px-3 py-3 text-sm text-slate-700 space-y-2 shadow-sm">
+            <p className="font-medium text-slate-900">
+              {t.shift.introQuestion}
+            </p>
+            <p className="text-xs text-slate-600">{t.shift.introExamples}</p>
+
+            <div className="mt-2 space-y-1">
+              <label className="block text-[11px] font-medium text-slate-600">
+                {t.shift.nextLabel}
+              </label>
+              <input
+                type="text"
+                className="w-full rounded-full border border-slate-300 px-3 py-1.5 text-xs"
+                placeholder={t.shift.nextPlaceholder}
+                value={nextActivity}
+                onChange={(e) => setNextActivity(e.target.value)}
+                suppressHydrationWarning
+              />
+            </div>
+
+            <div className="mt-3 space-y-1">
+              <p className="text-xs text-slate-600">
+                {t.shift.feelingQuestion}
+              </p>
+              <p className="text-[11px] text-slate-500">
+                {t.shift.feelingHint}
+              </p>
+              <div className="flex flex-wrap gap-1.5 mt-1">
+                {t.shift.feelingChips.map((label) => (
+                  <button
+                    key={label}
+                    type="button"
+                    className="px-3 py-1 rounded-full border border-slate-300 text-[11px] text-slate-700 bg-white hover:bg-slate-100"
+                    onClick={() =>
+                      setInput((prev) => (prev ? `${prev}; ${label}` : label))
+                    }
+                    suppressHydrationWarning
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Conversation bubbles */}
+        {messages.map((m, idx) => (
+          <div
+            key={idx}
+            className={
+              m.from === "assistant"
+                ? "flex justify-start"
+                : m.from === "user"
+                  ? "flex justify-end"
+                  : "flex justify-center"
+            }
+          >
+            <div
+              className={
+                m.from === "assistant"
+                  ? "max-w-[80%] rounded-2xl px-3 py-2 text-sm text-slate-800 bg-white border border-slate-200 shadow-sm"
+                  : m.from === "user"
+                    ? "max-w-[80%] rounded-2xl px-3 py-2 text-sm text-white bg-blue-600"
+                    : "max-w-[80%] text-[11px] text-slate-500 text-center"
+              }
+            >
+              {m.text}
+            </div>
+          </div>
+        ))}
+
+        {loading && (
+          <div className="flex justify-start">
+            <div className="inline-flex items-center gap-2 rounded-2xl px-3 py-2 text-[11px] text-slate-500 bg-white border border-slate-200">
+              <span className="w-1.5 h-1.5 rounded-full bg-slate-400 animate-pulse" />
+              <span>{t.shift.companionTyping}</span>
+            </div>
+          </div>
+        )}
+
+        {done && summary && (
+          <div className="rounded-2xl bg-white border border-slate-200 px-4 py-3 text-sm text-slate-700 space-y-3 shadow-sm">
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-medium text-slate-900">
+                {t.shift.summaryTitle}
+              </p>
+              <button
+                type="button"
+                onClick={copySummary}
+                className="px-3 py-1 rounded-full border border-slate-300 text-[11px] text-slate-700 bg-white hover:bg-slate-100"
+              >
+                {copied ? t.shift.copied : t.shift.copy}
+              </button>
+            </div>
+
+            <dl className="space-y-2">
+              {summary.nextActivity && (
+                <div>
+                  <dt className="text-[11px] font-medium text-slate-500">
+                    {t.shift.summaryNext}
+                  </dt>
+                  <dd className="text-sm text-slate-800">
+                    {summary.nextActivity}
+                  </dd>
+                </div>
+              )}
+              {summary.items.map((item) => (
+                <div key={item.key}>
+                  <dt className="text-[11px] font-medium text-slate-500">
+                    {item.label}
+                  </dt>
+                  <dd className="text-sm text-slate-800">{item.text}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+
+        {done && (
+          <div className="mt-2 space-y-2 text-[11px] text-slate-500 text-center">
+            <p>{t.shift.complete}</p>
+            {!endedForSafety && (
+              <button
+                type="button"
+                className={controlClass}
+                disabled={actionPending}
+                onClick={() => runAction("restart")}
+              >
+                {t.shift.beginAgain}
+              </button>
+            )}
+          </div>
+        )}
+
+        <div ref={messagesEndRef} />
+      </section>
+
+      {/* Guided breathing for steps that offer it */}
+      {breathing && !done && !paused && (
+        <div className="px-3 pt-3 border-t border-slate-200 bg-white">
+          <BreathingTimer
+            key={currentStep}
+            config={breathing}
+            disabled={loading || actionPending}
+            onFinish={finishBreathing}
+            messages={t.breathing}
+          />
+        </div>
+      )}
+
+      {/* Input area */}
+      <form
+        onSubmit={handleSubmit}
+        className="px-3 py-3 border-t border-slate-200 bg-white flex flex-col gap-2"
+      >
+        <div className="flex gap-2">
+          <input
+            type="text"
+            className="flex-1 border border-slate-300 rounded-full px-3 py-2 text-sm"
+            placeholder={
+              done
+                ? t.shift.placeholderDone
+                : paused
+                  ? t.shift.placeholderPaused
+                  : t.shift.placeholder
+            }
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            disabled={disableInput}
+            suppressHydrationWarning
+          />
+          {voiceMode && speech.recognitionSupported && (
+            <button
+              type="button"
+              aria-pressed={speech.listening}
+              disabled={disableInput && !speech.listening}
+              onPointerDown={(e) => {
+                e.preventDefault();
+                startTalking();
+              }}
+              onPointerUp={speech.stopListening}
+              onPointerLeave={speech.stopListening}
+              onKeyDown={(e) => {
+                if ((e.key === " " || e.key === "Enter") && !e.repeat) {
+                  e.preventDefault();
+                  startTalking();
+                }
+              }}
+              onKeyUp={(e) => {
+                if (e.key === " " || e.key === "Enter") {
+                  speech.stopListening();
+                }
+              }}
+              className={
+                "px-3 py-2 rounded-full border text-sm font-medium select-none touch-none disabled:opacity-40 " +
+                (speech.listening
+                  ? "border-blue-600 bg-blue-600 text-white"
+                  : "border-slate-300 bg-white text-slate-700 hover:bg-slate-100")
+              }
+            >
+              {speech.listening ? t.voice.listening : t.voice.holdToTalk}
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={disableInput || !input.trim()}
+            className="px-4 py-2 rounded-full bg-blue-600 text-white text-sm font-medium disabled:opacity-40"
+          >
+            {done ? t.shift.done : t.shift.send}
+          </button>
+        </div>
+
+        {voiceMode && voiceAvailable && (
+          <p className="text-[10px] text-slate-500 text-center">
+            {!speech.recognitionSupported
+              ? t.voice.noInput
+              : !speech.synthesisSupported
+                ? t.voice.noOutput
+                : speech.speaking
+                  ? t.voice.speaking
+                  : t.voice.hint}
+          </p>
+        )}
+
+        <p className="text-[10px] text-slate-400 text-center">
+          {t.shift.footer}
+        </p>
+      </form>
+    </main>
+  );
+}
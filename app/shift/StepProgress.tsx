@@ -0,0 +1,109 @@
+import { getStepNoteKey, type RitualStep } from "@/lib/stepMachine";
+
+type StepStatus = "completed" | "current" | "upcoming";
+
+/**
+ * Live progress through the ritual's steps: completed steps show their
+ * note, the current step is highlighted, and the bar and markers animate
+ * as the session moves forward.
+ *
+ * `currentStep` is the step ID from the chat API ("DONE" once the ritual
+ * is complete); before the first reply it is null and the first step is
+ * shown as current.
+ */
+export default function StepProgress({
+  steps,
+  currentStep,
+  notes,
+  label,
+}: {
+  steps: RitualStep[];
+  currentStep: string | null;
+  notes: Record<string, string | undefined>;
+  /**
+   * Accessible name of the indicator, in the page's language.
+   */
+  label: string;
+}) {
+  const currentIndex =
+    currentStep === "DONE"
+      ? steps.length
+      : Math.max(0, steps.findIndex((step) => step.id === currentStep));
+
+  const progress = steps.length > 0 ? (currentIndex / steps.length) * 100 : 0;
+
+  function statusOf(index: number): StepStatus {
+    if (index < currentIndex) return "completed";
+    return index === currentIndex ? "current" : "upcoming";
+  }
+
+  return (
+    <nav
+      aria-label={label}
+      className="px-4 pt-2 pb-3 border-b border-slate-200 bg-white"
+    >
+      <div className="h-1 rounded-full bg-slate-100 overflow-hidden">
+        <div
+          className="h-full rounded-full bg-blue-600 transition-[width] duration-700 ease-out motion-reduce:transition-none"
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+
+      <ol
+        className="mt-2 grid gap-2"
+        style={{
+          gridTemplateColumns: `repeat(${steps.length}, minmax(0, 1fr))`,
+        }}
+      >
+        {steps.map((step, index) => {
+          const status = statusOf(index);
+          const note =
+            status === "completed"
+              ? notes[getStepNoteKey(step.id)]?.trim()
+              : undefined;
+
+          return (
+            <li
+              key={step.id}
+              aria-current={status === "current" ? "step" : undefined}
+              className="min-w-0 flex flex-col items-center text-center"
+            >
+              <span
+                className={
+                  "flex items-center justify-center w-5 h-5 rounded-full text-[10px] font-semibold transition-all duration-500 motion-reduce:transition-none " +
+                  (status === "completed"
+                    ? "bg-blue-600 text-white"
+                    : status === "current"
+                      ? "bg-white text-blue-600 ring-2 ring-blue-600 scale-110"
+                      : "bg-slate-100 text-slate-400")
+                }
+              >
+                {status === "completed" ? "✓" : index + 1}
+              </span>
+              <span
+                className={
+                  "mt-1 text-[11px] transition-colors duration-500 " +
+                  (status === "current"
+                    ? "font-semibold text-slate-900"
+                    : status === "completed"
+                      ? "text-slate-700"
+                      : "text-slate-400")
+                }
+              >
+                {step.label}
+              </span>
+              {note && (
+                <span
+                  className="w-full truncate text-[10px] text-slate-500 motion-safe:animate-fade-in"
+                  title={note}
+                >
+                  {note}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+}
@@ -0,0 +1,39 @@
+import { notFound } from "next/navigation";
+
+import { getPresenceConfig, ritualExists } from "@/lib/config";
+import { localizeConfig } from "@/lib/i18n";
+import { getRequestLocale } from "@/lib/requestLocale";
+import { getRitualSteps } from "@/lib/stepMachine";
+import { getVoiceSettings } from "@/lib/voice";
+
+import ShiftChat from "../ShiftChat";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * /shift/[ritualSlug] runs the named ritual. Responds with 404 when the
+ * ritual does not exist or has no active config version.
+ */
+export default async function RitualShiftPage({
+  params,
+}: {
+  params: Promise<{ ritualSlug: string }>;
+}) {
+  const { ritualSlug } = await params;
+
+  if (!(await ritualExists(ritualSlug))) {
+    notFound();
+  }
+
+  const locale = await getRequestLocale();
+  const config = localizeConfig(await getPresenceConfig(ritualSlug), locale);
+
+  return (
+    <ShiftChat
+      ritualSlug={ritualSlug}
+      locale={locale}
+      steps={getRitualSteps(config)}
+      voice={getVoiceSettings(config)}
+    />
+  );
+}
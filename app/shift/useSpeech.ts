@@ -0,0 +1,242 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { splitIntoUtterances, type VoiceSettings } from "@/lib/voice";
+
+// TypeScript's DOM library does not describe speech recognition yet, so
+// declare the parts used here.
+interface RecognitionResultList {
+  length: number;
+  [index: number]: { isFinal: boolean; 0: { transcript: string } };
+}
+
+interface Recognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { results: RecognitionResultList }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type RecognitionConstructor = new () => Recognition;
+
+function getRecognitionConstructor(): RecognitionConstructor | null {
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: RecognitionConstructor;
+    webkitSpeechRecognition?: RecognitionConstructor;
+  };
+
+  return (
+    speechWindow.SpeechRecognition ??
+    speechWindow.webkitSpeechRecognition ??
+    null
+  );
+}
+
+/**
+ * The installed voice that best matches the ritual's settings: the first
+ * of `voiceNames` available, else one for `lang`.
+ */
+function pickVoice(settings: VoiceSettings): SpeechSynthesisVoice | undefined {
+  const voices = window.speechSynthesis.getVoices();
+
+  for (const name of settings.voiceNames) {
+    const match = voices.find((voice) =>
+      voice.name.toLowerCase().includes(name.toLowerCase()),
+    );
+    if (match) return match;
+  }
+
+  const lang = settings.lang.toLowerCase();
+  return (
+    voices.find((voice) => voice.lang.toLowerCase() === lang) ??
+    voices.find((voice) =>
+      voice.lang.toLowerCase().startsWith(lang.split("-")[0]),
+    )
+  );
+}
+
+export interface ListenHandlers {
+  /**
+   * Called as the recognized text changes while the user is speaking.
+   */
+  onResult: (text: string) => void;
+
+  /**
+   * Called once recognition has stopped, with the final text (possibly
+   * empty).
+   */
+  onEnd: (text: string) => void;
+
+  /**
+   * Called when recognition fails, e.g. because microphone access was
+   * denied (`not-allowed`).
+   */
+  onError: (error: string) => void;
+}
+
+/**
+ * Push-to-talk speech recognition and spoken replies through the browser's
+ * Web Speech APIs.
+ *
+ * Support is detected after mounting, so the server render and the first
+ * client render match; until then both `recognitionSupported` and
+ * `synthesisSupported` are false.
+ */
+export function useSpeech(settings: VoiceSettings) {
+  const [recognitionSupported, setRecognitionSupported] = useState(false);
+  const [synthesisSupported, setSynthesisSupported] = useState(false);
+  const [listening, setListening] = useState(false);
+  const [speaking, setSpeaking] = useState(false);
+
+  const recognitionRef = useRef<Recognition | null>(null);
+  // Bumped whenever speech is cancelled, so queued sentences of an older
+  // reply are dropped
+  const speechRunRef = useRef(0);
+  const pauseTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    setRecognitionSupported(getRecognitionConstructor() !== null);
+    setSynthesisSupported(
+      "speechSynthesis" in window && "SpeechSynthesisUtterance" in window,
+    );
+
+    return () => {
+      recognitionRef.current?.abort();
+      if (pauseTimerRef.current) clearTimeout(pauseTimerRef.current);
+      if ("speechSynthesis" in window) window.speechSynthesis.cancel();
+    };
+  }, []);
+
+  const cancelSpeech = useCallback(() => {
+    speechRunRef.current += 1;
+    if (pauseTimerRef.current) {
+      clearTimeout(pauseTimerRef.current);
+      pauseTimerRef.current = null;
+    }
+    if ("speechSynthesis" in window) window.speechSynthesis.cancel();
+    setSpeaking(false);
+  }, []);
+
+  /**
+   * Read `text` aloud, sentence by sentence, replacing anything still being
+   * spoken.
+   */
+  const speak = useCallback(
+    (text: string) => {
+      if (!synthesisSupported) return;
+
+      cancelSpeech();
+
+      const run = speechRunRef.current;
+      const sentences = splitIntoUtterances(text);
+      const voice = pickVoice(settings);
+
+      function speakSentence(index: number) {
+        if (run !== speechRunRef.current) return;
+
+        if (index >= sentences.length) {
+          setSpeaking(false);
+          return;
+        }
+
+        const utterance = new SpeechSynthesisUtterance(sentences[index]);
+        utterance.lang = voice?.lang ?? settings.lang;
+        if (voice) utterance.voice = voice;
+        utterance.rate = settings.rate;
+        utterance.pitch = settings.pitch;
+
+        const next = () => {
+          pauseTimerRef.current = setTimeout(
+            () => speakSentence(index + 1),
+            settings.sentencePauseMs,
+          );
+        };
+        utterance.onend = next;
+        utterance.onerror = next;
+
+        window.speechSynthesis.speak(utterance);
+      }
+
+      if (sentences.length > 0) {
+        setSpeaking(true);
+        speakSentence(0);
+      }
+    },
+    [synthesisSupported, settings, cancelSpeech],
+  );
+
+  /**
+   * Start listening; call `stopListening` when the user lets go of the
+   * talk button.
+   */
+  const startListening = useCallback(
+    (handlers: ListenHandlers) => {
+      const Constructor = getRecognitionConstructor();
+      if (!Constructor || recognitionRef.current) return;
+
+      // Don't talk over the user
+      cancelSpeech();
+
+      const recognition = new Constructor();
+      recognition.lang = settings.lang;
+      recognition.continuous = true;
+      recognition.interimResults = true;
+
+      let text = "";
+
+      recognition.onresult = (event) => {
+        text = Array.from(
+          { length: event.results.length },
+          (_, index) => event.results[index][0].transcript,
+        )
+          .join(" ")
+          .replace(/\s+/g, " ")
+          .trim();
+        handlers.onResult(text);
+      };
+      recognition.onerror = (event) => {
+        if (event.error !== "no-speech" && event.error !== "aborted") {
+          handlers.onError(event.error);
+        }
+      };
+      recognition.onend = () => {
+        recognitionRef.current = null;
+        setListening(false);
+        handlers.onEnd(text);
+      };
+
+      recognitionRef.current = recognition;
+      setListening(true);
+
+      try {
+        recognition.start();
+      } catch {
+        recognitionRef.current = null;
+        setListening(false);
+        handlers.onError("start-failed");
+      }
+    },
+    [settings.lang, cancelSpeech],
+  );
+
+  const stopListening = useCallback(() => {
+    recognitionRef.current?.stop();
+  }, []);
+
+  return {
+    recognitionSupported,
+    synthesisSupported,
+    listening,
+    speaking,
+    startListening,
+    stopListening,
+    speak,
+    cancelSpeech,
+  };
+}
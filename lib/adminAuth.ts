@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Check the `x-admin-secret` header of an admin API request against
+ * ADMIN_SECRET. Returns the error response to send, or null when the
+ * request may go ahead.
+ */
+export function checkAdminSecret(req: NextRequest): NextResponse | null {
+  const adminSecret = process.env.ADMIN_SECRET;
+
+  if (!adminSecret) {
+    return NextResponse.json(
+      { error: "ADMIN_SECRET is not configured on the server." },
+      { status: 500 },
+    );
+  }
+
+  const secretHeader = req.headers.get("x-admin-secret");
+
+  if (!secretHeader || secretHeader !== adminSecret) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return null;
+}
@@ -0,0 +1,92 @@
+import { PresenceStep, SessionEndReason, SessionState } from "./types";
+import { getDefaultRitualSlug } from "./config";
+import type { SafetySeverity } from "./safety";
+
+/**
+ * Server-side product analytics for Presence Shift sessions.
+ *
+ * Events are written to the server log as single-line JSON prefixed with
+ * `[analytics]`, and additionally POSTed to ANALYTICS_WEBHOOK_URL when it
+ * is set. Events never contain user-written text.
+ */
+
+export interface SessionEventBase {
+  sessionId: string;
+  ritualSlug: string;
+
+  /**
+   * The `RitualConfigVersion` the session is pinned to; null for
+   * unpinned sessions.
+   */
+  configVersionId: string | null;
+}
+
+export type AnalyticsEvent =
+  | (SessionEventBase & { type: "session_started" })
+  | (SessionEventBase & {
+      type: "turn_completed";
+      fromStep: PresenceStep;
+      toStep: PresenceStep;
+    })
+  | (SessionEventBase & {
+      type: "session_ended";
+      endReason: SessionEndReason;
+      turns: number;
+    })
+  | (SessionEventBase & { type: "session_restarted" })
+  | (SessionEventBase & {
+      type: "step_skipped";
+      fromStep: PresenceStep;
+      toStep: PresenceStep;
+    })
+  | (SessionEventBase & { type: "session_paused" | "session_resumed" })
+  | (SessionEventBase & {
+      type: "safety_flagged";
+      step: PresenceStep;
+      severity: SafetySeverity;
+      ruleId: string;
+    })
+  | (SessionEventBase & {
+      type: "output_flagged";
+      step: PresenceStep;
+      ruleId: string;
+      attempt: number;
+    })
+  | (SessionEventBase & {
+      type: "breathing_exercise";
+      step: PresenceStep;
+      seconds: number;
+      completed: boolean;
+    });
+
+/**
+ * Record an analytics event. Never throws; delivery failures are logged.
+ */
+export function trackEvent(event: AnalyticsEvent): void {
+  const payload = { ...event, timestamp: new Date().toISOString() };
+  const line = JSON.stringify(payload);
+
+  console.info(`[analytics] ${line}`);
+
+  const webhookUrl = process.env.ANALYTICS_WEBHOOK_URL;
+  if (!webhookUrl) return;
+
+  void fetch(webhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: line,
+  }).catch((err) => {
+    console.error("Failed to deliver analytics event:", err);
+  });
+}
+
+/**
+ * The fields every session event carries.
+ */
+export function sessionEventBase(session: SessionState): SessionEventBase {
+  return {
+    sessionId: session.sessionId,
+    ritualSlug: session.ritualSlug ?? getDefaultRitualSlug(),
+    configVersionId: session.configVersionId ?? null,
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Guided breathing exercises for ritual steps.
+ *
+ * A step opts in with a `breathing` section in its config. The Shift page
+ * then offers an animated breathing timer during that step, and reports
+ * the result with the user's next message so the Companion can
+ * acknowledge it.
+ */
+
+/**
+ * Breathing settings of a step, in seconds.
+ */
+export interface BreathingConfig {
+  inhaleSeconds: number;
+  /**
+   * Hold after breathing in (default: 0).
+   */
+  holdSeconds?: number;
+  exhaleSeconds: number;
+  /**
+   * Pause after breathing out (default: 0).
+   */
+  restSeconds?: number;
+  /**
+   * Total length of the exercise, rounded up to whole breaths.
+   */
+  durationSeconds: number;
+  /**
+   * Text of the button that starts the timer (default: "Breathe with me").
+   */
+  label?: string;
+}
+
+export type BreathingPhaseName = "inhale" | "hold" | "exhale" | "rest";
+
+export interface BreathingPhase {
+  name: BreathingPhaseName;
+  seconds: number;
+}
+
+/**
+ * The phases of one breath and how many breaths make up the exercise.
+ */
+export interface BreathingPlan {
+  phases: BreathingPhase[];
+  breaths: number;
+  totalSeconds: number;
+}
+
+/**
+ * What the client reports about an exercise with the user's next message.
+ */
+export interface BreathingReport {
+  /**
+   * Seconds the user spent breathing with the timer.
+   */
+  seconds: number;
+
+  /**
+   * Whether the timer ran to the end (false if the user stopped it).
+   */
+  completed: boolean;
+}
+
+const MAX_PHASE_SECONDS = 30;
+const MAX_DURATION_SECONDS = 600;
+
+function isSeconds(value: unknown, max: number, allowZero: boolean): boolean {
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    (allowZero ? value >= 0 : value > 0) &&
+    value <= max
+  );
+}
+
+/**
+ * Check a step's `breathing` section. Returns a description of the first
+ * problem, or null if it is usable.
+ */
+export function validateBreathingConfig(value: unknown): string | null {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return "must be an object";
+  }
+
+  const config = value as Record<string, unknown>;
+
+  for (const key of ["inhaleSeconds", "exhaleSeconds"]) {
+    if (!isSeconds(config[key], MAX_PHASE_SECONDS, false)) {
+      return `"${key}" must be a number of seconds between 0 and ${MAX_PHASE_SECONDS}`;
+    }
+  }
+
+  for (const key of ["holdSeconds", "restSeconds"]) {
+    if (
+      config[key] !== undefined &&
+      !isSeconds(config[key], MAX_PHASE_SECONDS, true)
+    ) {
+      return `"${key}" must be a number of seconds up to ${MAX_PHASE_SECONDS}`;
+    }
+  }
+
+  if (!isSeconds(config.durationSeconds, MAX_DURATION_SECONDS, false)) {
+    return `"durationSeconds" must be a number of seconds up to ${MAX_DURATION_SECONDS}`;
+  }
+
+  if (config.label !== undefined && typeof config.label !== "string") {
+    return `"label" must be a string`;
+  }
+
+  return null;
+}
+
+/**
+ * The phases and number of breaths for an exercise. Phases of zero
+ * seconds are left out.
+ */
+export function getBreathingPlan(config: BreathingConfig): BreathingPlan {
+  const phases = (
+    [
+      { name: "inhale", seconds: config.inhaleSeconds },
+      { name: "hold", seconds: config.holdSeconds ?? 0 },
+      { name: "exhale", seconds: config.exhaleSeconds },
+      { name: "rest", seconds: config.restSeconds ?? 0 },
+    ] satisfies BreathingPhase[]
+  ).filter((phase) => phase.seconds > 0);
+
+  const breathSeconds = phases.reduce((sum, phase) => sum + phase.seconds, 0);
+  const breaths = Math.max(
+    1,
+    Math.ceil(config.durationSeconds / breathSeconds),
+  );
+
+  return { phases, breaths, totalSeconds: breaths * breathSeconds };
+}
+
+/**
+ * Parse a breathing report from a chat request body, or null if it is
+ * missing or malformed.
+ */
+export function parseBreathingReport(value: unknown): BreathingReport | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+
+  const { seconds, completed } = value as Record<string, unknown>;
+
+  if (
+    !isSeconds(seconds, MAX_DURATION_SECONDS * 2, true) ||
+    typeof completed !== "boolean"
+  ) {
+    return null;
+  }
+
+  return { seconds: Math.round(seconds as number), completed };
+}
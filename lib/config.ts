@@ -1,32 +1,311 @@
 import presenceConfigJson from "../config/presenceShift.json";
-import { getActiveRitualConfig, type RitualConfigJson } from "./configStore";
+import {
+  findActiveRitualConfig,
+  getRitualConfigVersion,
+  onRitualConfigChange,
+} from "./configStore";
+import type { SessionState } from "./types";
 export type PresenceConfig = typeof presenceConfigJson;
 
-let cachedConfig: PresenceConfig | null = null;
+/**
+ * Ritual config service.
+ *
+ * Where configs come from (CONFIG_SOURCE):
+ * - `database` (default in production): the ritual's active
+ *   `RitualConfigVersion`, cached per ritual for CONFIG_CACHE_TTL_MS.
+ * - `bundled` (default elsewhere): config/presenceShift.json for the
+ *   default ritual, so local edits take effect without a database. Other
+ *   rituals are not available.
+ *
+ * Fallback policy when the database is used:
+ * - Ritual or active version missing: the default ritual uses the bundled
+ *   config; any other ritual is reported as not found.
+ * - Database unreachable: the last config loaded for the ritual is served
+ *   and the load is retried after CONFIG_RETRY_MS. With nothing loaded
+ *   yet, the default ritual uses the bundled config and other rituals
+ *   fail with `ConfigUnavailableError`.
+ *
+ * Creating or activating a version invalidates that ritual's cache entry
+ * on this instance; other instances pick it up within the TTL.
+ */
 
-export function getPresenceConfig(): PresenceConfig {
-  if (cachedConfig) {
-    return cachedConfig;
+/**
+ * The config a session runs on and the `RitualConfigVersion` it came
+ * from (null when the session is not pinned to a version).
+ */
+export interface SessionConfig {
+  config: PresenceConfig;
+  versionId: string | null;
+}
+
+/**
+ * Thrown when a ritual does not exist or has no active config version.
+ */
+export class RitualNotFoundError extends Error {
+  constructor(ritualSlug: string) {
+    super(`Ritual "${ritualSlug}" not found or has no active config version.`);
+    this.name = "RitualNotFoundError";
+  }
+}
+
+/**
+ * Thrown when a ritual's config cannot be loaded and there is nothing to
+ * fall back to.
+ */
+export class ConfigUnavailableError extends Error {
+  constructor(ritualSlug: string, cause: unknown) {
+    super(
+      `Config for ritual "${ritualSlug}" is unavailable: ${cause instanceof Error ? cause.message : String(cause)}`,
+    );
+    this.name = "ConfigUnavailableError";
+  }
+}
+
+interface CacheEntry {
+  value: SessionConfig;
+  expiresAt: number;
+}
+
+const DEFAULT_CACHE_TTL_MS = 30_000;
+const DEFAULT_RETRY_MS = 5_000;
+
+const activeConfigs = new Map<string, CacheEntry>();
+const pendingLoads = new Map<string, Promise<SessionConfig>>();
+
+/**
+ * Bumped on every invalidation, so a load that started before it does
+ * not cache what may be an outdated config.
+ */
+let cacheGeneration = 0;
+
+/**
+ * Config versions never change once created, so the configs of pinned
+ * versions are cached for the life of the process.
+ */
+const versionConfigs = new Map<string, PresenceConfig>();
+
+const BUNDLED_CONFIG: SessionConfig = {
+  config: presenceConfigJson,
+  versionId: null,
+};
+
+/**
+ * Ritual slugs appear in URLs and are used as cache keys, so keep them to
+ * lowercase letters, digits, `-` and `_`.
+ */
+const RITUAL_SLUG_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+/**
+ * Slug of the ritual used when a request does not name one, from
+ * DEFAULT_RITUAL_SLUG (default: ps1_foundation).
+ */
+export function getDefaultRitualSlug(): string {
+  return process.env.DEFAULT_RITUAL_SLUG || "ps1_foundation";
+}
+
+export function isValidRitualSlug(slug: string): boolean {
+  return RITUAL_SLUG_PATTERN.test(slug);
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+/**
+ * Whether configs are loaded from the database, from CONFIG_SOURCE
+ * (`database` or `bundled`; default: `database` in production).
+ */
+export function usesDatabaseConfig(): boolean {
+  const source = process.env.CONFIG_SOURCE?.toLowerCase();
+  if (source === "database") return true;
+  if (source === "bundled") return false;
+  return process.env.NODE_ENV === "production";
+}
+
+/**
+ * Drop cached active configs so the next request reloads them: for one
+ * ritual, or for all rituals when `ritualSlug` is omitted.
+ */
+export function invalidateConfigCache(ritualSlug?: string): void {
+  cacheGeneration += 1;
+
+  if (ritualSlug) {
+    activeConfigs.delete(ritualSlug);
+    pendingLoads.delete(ritualSlug);
+  } else {
+    activeConfigs.clear();
+    pendingLoads.clear();
   }
+}
 
-  if (process.env.NODE_ENV === "production") {
-    try {
-      const defaultRitualSlug =
-        process.env.DEFAULT_RITUAL_SLUG || "ps1_foundation";
+onRitualConfigChange((ritualSlug) => invalidateConfigCache(ritualSlug));
 
-      void getActiveRitualConfig(defaultRitualSlug).then((active) => {
-        const cfg = active.config as unknown as PresenceConfig;
-        cachedConfig = cfg;
-      });
-    } catch {
-      cachedConfig = presenceConfigJson;
-      return cachedConfig;
+async function loadActiveConfig(ritualSlug: string): Promise<SessionConfig> {
+  const generation = cacheGeneration;
+
+  function cacheActiveConfig(
+    value: SessionConfig,
+    ttlMs: number,
+  ): SessionConfig {
+    if (generation === cacheGeneration) {
+      activeConfigs.set(ritualSlug, { value, expiresAt: Date.now() + ttlMs });
     }
+    return value;
   }
 
-  if (!cachedConfig) {
-    cachedConfig = presenceConfigJson;
+  const isDefault = ritualSlug === getDefaultRitualSlug();
+  const ttlMs = parseNumber(
+    process.env.CONFIG_CACHE_TTL_MS,
+    DEFAULT_CACHE_TTL_MS,
+  );
+  const retryMs = parseNumber(process.env.CONFIG_RETRY_MS, DEFAULT_RETRY_MS);
+
+  let active: Awaited<ReturnType<typeof findActiveRitualConfig>>;
+
+  try {
+    active = await findActiveRitualConfig(ritualSlug);
+  } catch (err) {
+    const stale = activeConfigs.get(ritualSlug);
+
+    if (stale) {
+      console.warn(
+        `Could not reload config for ritual "${ritualSlug}"; serving the last loaded config:`,
+        err instanceof Error ? err.message : err,
+      );
+      return cacheActiveConfig(stale.value, retryMs);
+    }
+
+    if (isDefault) {
+      console.warn(
+        `Could not load config for ritual "${ritualSlug}"; using the bundled config:`,
+        err instanceof Error ? err.message : err,
+      );
+      return cacheActiveConfig(BUNDLED_CONFIG, retryMs);
+    }
+
+    throw new ConfigUnavailableError(ritualSlug, err);
+  }
+
+  if (!active) {
+    if (isDefault) {
+      return cacheActiveConfig(BUNDLED_CONFIG, ttlMs);
+    }
+    activeConfigs.delete(ritualSlug);
+    throw new RitualNotFoundError(ritualSlug);
+  }
+
+  const config = active.config as unknown as PresenceConfig;
+  versionConfigs.set(active.version.id, config);
+
+  return cacheActiveConfig({ config, versionId: active.version.id }, ttlMs);
+}
+
+/**
+ * The active config of a ritual and its version ID.
+ *
+ * Throws `RitualNotFoundError` or `ConfigUnavailableError` as described
+ * in the fallback policy above.
+ */
+export async function getActiveConfig(
+  ritualSlug: string = getDefaultRitualSlug(),
+): Promise<SessionConfig> {
+  if (!usesDatabaseConfig()) {
+    if (ritualSlug === getDefaultRitualSlug()) return BUNDLED_CONFIG;
+    throw new RitualNotFoundError(ritualSlug);
+  }
+
+  const cached = activeConfigs.get(ritualSlug);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value;
+  }
+
+  // Share one database load between concurrent requests
+  const pending = pendingLoads.get(ritualSlug);
+  if (pending) {
+    return pending;
+  }
+
+  const load = loadActiveConfig(ritualSlug).finally(() => {
+    if (pendingLoads.get(ritualSlug) === load) {
+      pendingLoads.delete(ritualSlug);
+    }
+  });
+  pendingLoads.set(ritualSlug, load);
+
+  return load;
+}
+
+/**
+ * The active config of a ritual (see `getActiveConfig`).
+ */
+export async function getPresenceConfig(
+  ritualSlug: string = getDefaultRitualSlug(),
+): Promise<PresenceConfig> {
+  return (await getActiveConfig(ritualSlug)).config;
+}
+
+/**
+ * Whether a ritual can be started. Throws `ConfigUnavailableError` when
+ * that cannot be determined.
+ */
+export async function ritualExists(ritualSlug: string): Promise<boolean> {
+  if (!isValidRitualSlug(ritualSlug)) {
+    return false;
+  }
+
+  try {
+    await getActiveConfig(ritualSlug);
+    return true;
+  } catch (err) {
+    if (err instanceof RitualNotFoundError) return false;
+    throw err;
+  }
+}
+
+/**
+ * Resolve the config for an existing session.
+ *
+ * Pinned sessions get the exact version they started with, even if a
+ * newer version has been activated since. Unpinned sessions (created on
+ * the bundled config, or before pinning existed) follow the ritual's
+ * current config. So do pinned sessions whose version cannot be loaded,
+ * in which case the returned `versionId` is the current config's, not
+ * the pinned one.
+ */
+export async function getSessionConfig(
+  session: Pick<SessionState, "ritualSlug" | "configVersionId">,
+): Promise<SessionConfig> {
+  const ritualSlug = session.ritualSlug ?? getDefaultRitualSlug();
+  const versionId = session.configVersionId ?? null;
+
+  if (!versionId) {
+    return getActiveConfig(ritualSlug);
+  }
+
+  const cached = versionConfigs.get(versionId);
+  if (cached) {
+    return { config: cached, versionId };
+  }
+
+  try {
+    const stored = await getRitualConfigVersion(versionId);
+
+    if (stored) {
+      const config = stored.config as unknown as PresenceConfig;
+      versionConfigs.set(versionId, config);
+      return { config, versionId };
+    }
+
+    console.warn(
+      `Config version ${versionId} not found; using the current config for ritual "${ritualSlug}".`,
+    );
+  } catch (err) {
+    console.warn(
+      `Could not load config version ${versionId}; using the current config for ritual "${ritualSlug}":`,
+      err instanceof Error ? err.message : err,
+    );
   }
 
-  return cachedConfig;
+  return getActiveConfig(ritualSlug);
 }
@@ -1,5 +1,11 @@
 import { PrismaClient, Prisma } from "@prisma/client";
 
+import type { LLMSettings } from "./llm";
+import type { BreathingConfig } from "./breathing";
+import type { VoiceConfig } from "./voice";
+import type { LocalizedRitualConfig } from "./i18n";
+import type { SafetyConfig } from "./safety";
+
 // Type-safe fallbacks for Prisma models (works before and after prisma generate)
 type Ritual = any;
 type RitualConfigVersion = any;
@@ -26,18 +32,55 @@ if (process.env.NODE_ENV !== "production") {
   globalForPrisma.prisma = prisma;
 }
 
+type RitualConfigChangeListener = (ritualSlug: string) => void;
+
+const configChangeListeners = new Set<RitualConfigChangeListener>();
+
+/**
+ * Register a callback that runs whenever a ritual's active config may
+ * have changed (a version was created or activated), e.g. to invalidate
+ * caches. Returns a function that unregisters it.
+ */
+export function onRitualConfigChange(
+  listener: RitualConfigChangeListener,
+): () => void {
+  configChangeListeners.add(listener);
+  return () => configChangeListeners.delete(listener);
+}
+
+function notifyRitualConfigChange(ritualSlug: string): void {
+  for (const listener of configChangeListeners) {
+    listener(ritualSlug);
+  }
+}
+
 export interface StepConfig {
+  /**
+   * Short name shown to users, e.g. in the progress indicator. Defaults to
+   * the step ID in sentence case ("BODY_SCAN" → "Body scan").
+   */
+  label?: string;
+  /**
+   * Heading for this step's note in the end-of-shift summary. Defaults to
+   * `label`.
+   */
+  summaryLabel?: string;
   description: string;
   script: string;
   miniPrompts?: string[];
   presenceNotes?: string[];
+  /**
+   * Maximum number of user turns to spend in this step before the server
+   * moves the session forward.
+   */
+  maxTurns?: number;
+  /**
+   * Optional guided breathing exercise offered on the Shift page while the
+   * session is in this step (see `lib/breathing.ts`).
+   */
+  breathing?: BreathingConfig;
 }
 
-export type PresenceStepsConfig = Record<
-  "ANSWER" | "INTEND" | "FOCUS" | "FLOW" | "BEGIN",
-  StepConfig
->;
-
 export interface RitualConfigJson {
   brandVoice: {
     tone: string;
@@ -45,13 +88,42 @@ export interface RitualConfigJson {
       do?: string[];
       dont?: string[];
     };
+    /**
+     * Voice mode settings for the Shift page (see `lib/voice.ts`).
+     */
+    voice?: VoiceConfig;
   };
-  safety: {
-    disclaimer: string;
-    crisisTemplate: string;
-    keywords?: string[];
-  };
-  steps: PresenceStepsConfig & Record<string, StepConfig>;
+  /**
+   * Disclaimer, crisis copy and detection rules (see `lib/safety.ts`).
+   */
+  safety: SafetyConfig;
+  /**
+   * Step IDs in ritual order. Each needs an entry in `steps`; "DONE" is
+   * reserved for the end of the ritual. Defaults to the order of `steps`.
+   */
+  sequence?: string[];
+  /**
+   * Steps each step may move to besides staying where it is, by step ID
+   * ("DONE" ends the ritual). The first entry is where the server moves a
+   * session when it has to move it forward. Steps not listed move to the
+   * next step in `sequence`, and the last step to DONE.
+   */
+  transitions?: Record<string, string[]>;
+  steps: Record<string, StepConfig>;
+  /**
+   * Language tag the config's own text is written in (default: "en").
+   */
+  defaultLocale?: string;
+  /**
+   * Translations of the config's text, keyed by language tag (e.g. "es").
+   * Anything a translation leaves out uses the default text.
+   */
+  locales?: Record<string, LocalizedRitualConfig>;
+  /**
+   * Optional per-ritual LLM settings. Any field set here overrides the
+   * environment defaults (LLM_PROVIDER, LLM_MODEL, ...).
+   */
+  llm?: Partial<LLMSettings>;
 }
 
 /**
@@ -90,20 +162,28 @@ export async function ensureRitual(opts: {
   return ritual;
 }
 
+/**
+ * Fetch a ritual by slug, or null if it does not exist.
+ */
+export async function getRitualBySlug(slug: string): Promise<Ritual | null> {
+  return prisma.ritual.findUnique({ where: { slug } });
+}
+
 /**
  * Fetch the active ritual configuration for a given ritual slug.
  *
- * Throws if no active version is found.
+ * Returns null if the ritual or an active version does not exist; throws
+ * only on database errors.
  */
-export async function getActiveRitualConfig(
+export async function findActiveRitualConfig(
   ritualSlug: string,
-): Promise<ActiveRitualConfig> {
+): Promise<ActiveRitualConfig | null> {
   const ritual = await prisma.ritual.findUnique({
     where: { slug: ritualSlug },
   });
 
   if (!ritual) {
-    throw new Error(`Ritual with slug "${ritualSlug}" not found.`);
+    return null;
   }
 
   const version = await prisma.ritualConfigVersion.findFirst({
@@ -117,14 +197,75 @@ export async function getActiveRitualConfig(
   });
 
   if (!version) {
+    return null;
+  }
+
+  const config = version.configJson as unknown as RitualConfigJson;
+
+  return { ritual, version, config };
+}
+
+/**
+ * Fetch the active ritual configuration for a given ritual slug.
+ *
+ * Throws if no active version is found.
+ */
+export async function getActiveRitualConfig(
+  ritualSlug: string,
+): Promise<ActiveRitualConfig> {
+  const active = await findActiveRitualConfig(ritualSlug);
+
+  if (!active) {
     throw new Error(
       `No active config version found for ritual with slug "${ritualSlug}".`,
     );
   }
 
-  const config = version.configJson as unknown as RitualConfigJson;
+  return active;
+}
 
-  return { ritual, version, config };
+/**
+ * Fetch a specific config version by ID, whether or not it is active.
+ *
+ * Returns null if the version does not exist.
+ */
+export async function getRitualConfigVersion(
+  versionId: string,
+): Promise<{ version: RitualConfigVersion; config: RitualConfigJson } | null> {
+  const version = await prisma.ritualConfigVersion.findUnique({
+    where: { id: versionId },
+  });
+
+  if (!version) {
+    return null;
+  }
+
+  return {
+    version,
+    config: version.configJson as unknown as RitualConfigJson,
+  };
+}
+
+/**
+ * Summary of a ritual that users can start, for the ritual picker.
+ */
+export interface RitualSummary {
+  slug: string;
+  name: string;
+  description: string | null;
+}
+
+/**
+ * List rituals that have an active config version, ordered by name.
+ */
+export async function listActiveRituals(): Promise<RitualSummary[]> {
+  const rituals = await prisma.ritual.findMany({
+    where: { versions: { some: { isActive: true } } },
+    orderBy: { name: "asc" },
+    select: { slug: true, name: true, description: true },
+  });
+
+  return rituals;
 }
 
 /**
@@ -214,6 +355,8 @@ export async function createRitualConfigVersion(opts: {
     },
   });
 
+  notifyRitualConfigChange(ritual.slug);
+
   return version;
 }
 
@@ -226,6 +369,7 @@ export async function activateRitualConfigVersion(
 ): Promise<RitualConfigVersion> {
   const version = await prisma.ritualConfigVersion.findUnique({
     where: { id: versionId },
+    include: { ritual: true },
   });
 
   if (!version) {
@@ -249,6 +393,8 @@ export async function activateRitualConfigVersion(
     data: { isActive: true },
   });
 
+  notifyRitualConfigChange(version.ritual.slug);
+
   return updated;
 }
 
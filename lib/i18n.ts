@@ -0,0 +1,314 @@
+import type { PresenceConfig } from "./config";
+import type { RitualConfigJson, StepConfig } from "./configStore";
+
+/**
+ * Localization of rituals and the Shift page.
+ *
+ * The Shift page, the home page and the server's own copy are translated
+ * into each supported locale (see `lib/messages.ts`). A ritual's config is
+ * written in its `defaultLocale` and may add translations under
+ * `locales`; anything a translation leaves out falls back to the default
+ * text.
+ *
+ * A session's locale is chosen from the language picker, then the
+ * `presenceShift.locale` cookie it sets, then the browser's
+ * `Accept-Language`, then DEFAULT_LOCALE.
+ */
+
+export type Locale = "en" | "es";
+
+export const SUPPORTED_LOCALES: Locale[] = ["en", "es"];
+
+/**
+ * Names of each locale: `name` in English for the prompt, `nativeName`
+ * for the language picker.
+ */
+export const LOCALE_NAMES: Record<
+  Locale,
+  { name: string; nativeName: string }
+> = {
+  en: { name: "English", nativeName: "English" },
+  es: { name: "Spanish", nativeName: "Español" },
+};
+
+/**
+ * Cookie the language picker stores the user's choice in.
+ */
+export const LOCALE_COOKIE = "presenceShift.locale";
+
+/**
+ * The parts of a step that a translation may override.
+ */
+export interface LocalizedStepConfig
+  extends Partial<
+    Pick<
+      StepConfig,
+      | "label"
+      | "summaryLabel"
+      | "description"
+      | "script"
+      | "miniPrompts"
+      | "presenceNotes"
+    >
+  > {
+  breathing?: { label?: string };
+}
+
+/**
+ * A ritual's translation into one locale.
+ */
+export interface LocalizedRitualConfig {
+  brandVoice?: Partial<RitualConfigJson["brandVoice"]>;
+  /**
+   * `rules`, `outputRules`, `keywords` and `negations` are checked in
+   * addition to the default locale's, never instead of them. Its
+   * "hard_stop" rules and `keywords` are checked in every locale.
+   */
+  safety?: Partial<RitualConfigJson["safety"]>;
+  steps?: Record<string, LocalizedStepConfig>;
+}
+
+const LOCALE_PATTERN = /^[a-z]{2,3}(?:-[A-Za-z0-9]{2,8})*$/;
+
+export function isSupportedLocale(value: unknown): value is Locale {
+  return SUPPORTED_LOCALES.includes(value as Locale);
+}
+
+/**
+ * The supported locale for a language tag ("es-MX" → "es"), or null.
+ * Accepts anything, since tags come from request bodies and cookies.
+ */
+export function matchLocale(tag: unknown): Locale | null {
+  if (typeof tag !== "string" || !tag) return null;
+
+  const language = tag.trim().toLowerCase().split(/[-_]/)[0];
+  return isSupportedLocale(language) ? language : null;
+}
+
+/**
+ * Locale used when nothing else matches, from DEFAULT_LOCALE (default:
+ * en).
+ */
+export function getDefaultLocale(): Locale {
+  return matchLocale(process.env.DEFAULT_LOCALE) ?? "en";
+}
+
+/**
+ * Language tags of an `Accept-Language` header, most preferred first.
+ */
+export function parseAcceptLanguage(
+  header: string | null | undefined,
+): string[] {
+  if (!header) return [];
+
+  return header
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params
+        .map((param) => param.trim())
+        .find((param) => param.startsWith("q="));
+      const quality = q ? Number(q.slice(2)) : 1;
+      return {
+        tag: tag.trim(),
+        quality: Number.isFinite(quality) ? quality : 0,
+        index,
+      };
+    })
+    .filter(({ tag, quality }) => tag && tag !== "*" && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ tag }) => tag);
+}
+
+/**
+ * Pick the locale for a request: an explicit choice (e.g. from the
+ * language picker), then the locale cookie, then `Accept-Language`, then
+ * the default locale.
+ */
+export function resolveLocale({
+  requested,
+  cookie,
+  acceptLanguage,
+}: {
+  requested?: unknown;
+  cookie?: string | null;
+  acceptLanguage?: string | null;
+}): Locale {
+  return (
+    matchLocale(requested) ??
+    matchLocale(cookie) ??
+    parseAcceptLanguage(acceptLanguage)
+      .map(matchLocale)
+      .find((locale): locale is Locale => locale !== null) ??
+    getDefaultLocale()
+  );
+}
+
+/**
+ * The locale a ritual config's own text is written in (default: en).
+ */
+export function getConfigLocale(config: PresenceConfig): string {
+  const { defaultLocale } = config as Partial<RitualConfigJson>;
+  return typeof defaultLocale === "string" && defaultLocale
+    ? defaultLocale
+    : "en";
+}
+
+const localizedConfigs = new WeakMap<object, Map<string, PresenceConfig>>();
+
+function mergeStep(
+  step: StepConfig,
+  translation: LocalizedStepConfig | undefined,
+): StepConfig {
+  if (!translation) return step;
+
+  const { breathing, ...text } = translation;
+  const merged: StepConfig = { ...step };
+
+  for (const key of [
+    "label",
+    "summaryLabel",
+    "description",
+    "script",
+  ] as const) {
+    if (typeof text[key] === "string" && text[key]) merged[key] = text[key];
+  }
+  for (const key of ["miniPrompts", "presenceNotes"] as const) {
+    if (Array.isArray(text[key]) && text[key].length > 0) {
+      merged[key] = text[key];
+    }
+  }
+  if (step.breathing && typeof breathing?.label === "string") {
+    merged.breathing = { ...step.breathing, label: breathing.label };
+  }
+
+  return merged;
+}
+
+/**
+ * A ritual config with its translation for `locale` applied. Returns the
+ * config itself when it is already in that locale or has no translation
+ * for it. The step sequence, transitions and limits always come from the
+ * config itself.
+ */
+export function localizeConfig(
+  config: PresenceConfig,
+  locale: string | undefined,
+): PresenceConfig {
+  const language = matchLocale(locale);
+  const ritualConfig = config as Partial<RitualConfigJson>;
+  const translation = language ? ritualConfig.locales?.[language] : undefined;
+
+  if (
+    !language ||
+    !translation ||
+    matchLocale(getConfigLocale(config)) === language
+  ) {
+    return config;
+  }
+
+  let byLocale = localizedConfigs.get(config);
+  const cached = byLocale?.get(language);
+  if (cached) return cached;
+
+  const base = config as unknown as RitualConfigJson;
+  const steps = Object.fromEntries(
+    Object.entries(base.steps).map(([id, step]) => [
+      id,
+      mergeStep(step, translation.steps?.[id]),
+    ]),
+  );
+
+  const localized: RitualConfigJson = {
+    ...base,
+    brandVoice: {
+      ...base.brandVoice,
+      ...translation.brandVoice,
+      voice: { ...base.brandVoice.voice, ...translation.brandVoice?.voice },
+    },
+    safety: {
+      ...base.safety,
+      ...translation.safety,
+      rules: [
+        ...(base.safety.rules ?? []),
+        ...(translation.safety?.rules ?? []),
+      ],
+      outputRules: [
+        ...(base.safety.outputRules ?? []),
+        ...(translation.safety?.outputRules ?? []),
+      ],
+      keywords: [
+        ...(base.safety.keywords ?? []),
+        ...(translation.safety?.keywords ?? []),
+      ],
+      negations: [
+        ...(base.safety.negations ?? []),
+        ...(translation.safety?.negations ?? []),
+      ],
+    },
+    steps,
+  };
+
+  if (!byLocale) {
+    byLocale = new Map();
+    localizedConfigs.set(config, byLocale);
+  }
+  byLocale.set(language, localized as unknown as PresenceConfig);
+
+  return localized as unknown as PresenceConfig;
+}
+
+/**
+ * Check the `defaultLocale` and `locales` of a ritual config before it is
+ * saved. Returns a description of the first problem, or null. The
+ * translations' `safety` sections are checked by `validateSafetyRules`.
+ */
+export function validateLocales(config: {
+  defaultLocale?: unknown;
+  locales?: unknown;
+  steps?: unknown;
+}): string | null {
+  const { defaultLocale, locales, steps } = config;
+
+  if (
+    defaultLocale !== undefined &&
+    (typeof defaultLocale !== "string" || !LOCALE_PATTERN.test(defaultLocale))
+  ) {
+    return `"defaultLocale" must be a language tag such as "en".`;
+  }
+
+  if (locales === undefined) return null;
+
+  if (
+    typeof locales !== "object" ||
+    locales === null ||
+    Array.isArray(locales)
+  ) {
+    return `"locales" must be an object of translations keyed by language tag.`;
+  }
+
+  const stepIds = Object.keys((steps as object | undefined) ?? {});
+
+  for (const [tag, translation] of Object.entries(locales)) {
+    if (!LOCALE_PATTERN.test(tag)) {
+      return `"locales" key ${JSON.stringify(tag)} must be a language tag such as "es".`;
+    }
+    if (
+      typeof translation !== "object" ||
+      translation === null ||
+      Array.isArray(translation)
+    ) {
+      return `"locales.${tag}" must be an object.`;
+    }
+
+    const { steps: translatedSteps } = translation as LocalizedRitualConfig;
+
+    for (const id of Object.keys(translatedSteps ?? {})) {
+      if (!stepIds.includes(id)) {
+        return `"locales.${tag}.steps" has an entry for unknown step "${id}".`;
+      }
+    }
+  }
+
+  return null;
+}
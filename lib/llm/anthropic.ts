@@ -0,0 +1,86 @@
+import Anthropic from "@anthropic-ai/sdk";
+
+import type {
+  LLMCompletionRequest,
+  LLMMessage,
+  LLMProvider,
+  LLMSettings,
+} from "./types";
+
+/**
+ * Split provider-agnostic messages into Anthropic's separate `system`
+ * string and user/assistant message list.
+ */
+function toAnthropicMessages(messages: LLMMessage[]): {
+  system?: string;
+  messages: Anthropic.MessageParam[];
+} {
+  const system = messages
+    .filter((m) => m.role === "system")
+    .map((m) => m.content)
+    .join("\n\n");
+
+  const chat = messages
+    .filter((m) => m.role !== "system")
+    .map((m) => ({
+      role: m.role as "user" | "assistant",
+      content: m.content,
+    }));
+
+  return { system: system || undefined, messages: chat };
+}
+
+/**
+ * Create a provider backed by the Anthropic Messages API.
+ *
+ * Anthropic has no native JSON mode, so `jsonMode` is ignored and the
+ * prompt's output-format instructions are relied on instead.
+ */
+export function createAnthropicProvider(
+  settings: LLMSettings,
+  opts: { apiKey: string },
+): LLMProvider {
+  // Retries are handled by the resilience wrapper, not the SDK.
+  const client = new Anthropic({ apiKey: opts.apiKey, maxRetries: 0 });
+
+  function baseParams(request: LLMCompletionRequest) {
+    const { system, messages } = toAnthropicMessages(request.messages);
+    return {
+      model: settings.model,
+      max_tokens: settings.maxTokens,
+      temperature: settings.temperature,
+      system,
+      messages,
+    };
+  }
+
+  return {
+    name: "anthropic",
+    model: settings.model,
+
+    async complete(request) {
+      const response = await client.messages.create(baseParams(request), {
+        signal: request.signal,
+      });
+
+      return response.content
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join("");
+    },
+
+    async *stream(request) {
+      const stream = client.messages.stream(baseParams(request), {
+        signal: request.signal,
+      });
+
+      for await (const event of stream) {
+        if (
+          event.type === "content_block_delta" &&
+          event.delta.type === "text_delta"
+        ) {
+          yield event.delta.text;
+        }
+      }
+    },
+  };
+}
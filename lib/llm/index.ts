@@ -0,0 +1,154 @@
+import { createAnthropicProvider } from "./anthropic";
+import { createMockProvider } from "./mock";
+import { createOpenAIProvider } from "./openai";
+import { withResilience } from "./resilience";
+import type { LLMProvider, LLMProviderName, LLMSettings } from "./types";
+
+export type {
+  LLMCompletionRequest,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderName,
+  LLMSettings,
+} from "./types";
+export { createMockProvider } from "./mock";
+export {
+  getCircuitBreakerSnapshots,
+  type CircuitBreakerSnapshot,
+  type CircuitState,
+} from "./resilience";
+
+const PROVIDER_NAMES: LLMProviderName[] = [
+  "openai",
+  "anthropic",
+  "openai-compatible",
+  "mock",
+];
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: "gpt-4o",
+  anthropic: "claude-3-5-sonnet-latest",
+  "openai-compatible": "llama3.1",
+  mock: "mock",
+};
+
+const DEFAULT_TEMPERATURE = 0.3;
+const DEFAULT_MAX_TOKENS = 1024;
+const DEFAULT_COMPATIBLE_BASE_URL = "http://localhost:11434/v1";
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Resolve provider settings from environment variables, with optional
+ * per-ritual overrides taken from the config's `llm` section.
+ *
+ * Environment variables:
+ * - LLM_PROVIDER: openai | anthropic | openai-compatible | mock (default: openai)
+ * - LLM_MODEL: model name (default depends on provider)
+ * - LLM_TEMPERATURE: sampling temperature (default: 0.3)
+ * - LLM_MAX_TOKENS: maximum tokens per reply (default: 1024)
+ * - LLM_BASE_URL: base URL for openai-compatible servers
+ *   (default: http://localhost:11434/v1, i.e. a local Ollama)
+ */
+export function resolveLLMSettings(
+  overrides: Partial<LLMSettings> = {},
+): LLMSettings {
+  const envProvider = process.env.LLM_PROVIDER as LLMProviderName | undefined;
+  const provider = overrides.provider ?? envProvider ?? "openai";
+
+  if (!PROVIDER_NAMES.includes(provider)) {
+    throw new Error(
+      `Unknown LLM provider "${provider}". Expected one of: ${PROVIDER_NAMES.join(", ")}.`,
+    );
+  }
+
+  // Only inherit the env model when the provider was not overridden to a
+  // different vendor, so a ritual can switch provider on its own.
+  const envModel =
+    !overrides.provider || overrides.provider === envProvider
+      ? process.env.LLM_MODEL
+      : undefined;
+
+  return {
+    provider,
+    model: overrides.model ?? envModel ?? DEFAULT_MODELS[provider],
+    temperature:
+      overrides.temperature ??
+      parseNumber(process.env.LLM_TEMPERATURE) ??
+      DEFAULT_TEMPERATURE,
+    maxTokens:
+      overrides.maxTokens ??
+      parseNumber(process.env.LLM_MAX_TOKENS) ??
+      DEFAULT_MAX_TOKENS,
+    baseUrl:
+      overrides.baseUrl ??
+      process.env.LLM_BASE_URL ??
+      (provider === "openai-compatible"
+        ? DEFAULT_COMPATIBLE_BASE_URL
+        : undefined),
+  };
+}
+
+function createProvider(settings: LLMSettings): LLMProvider {
+  switch (settings.provider) {
+    case "openai": {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error(
+          "Server is not configured with an OpenAI API key. Please set OPENAI_API_KEY.",
+        );
+      }
+      return createOpenAIProvider(settings, {
+        apiKey: process.env.OPENAI_API_KEY,
+      });
+    }
+
+    case "anthropic": {
+      if (!process.env.ANTHROPIC_API_KEY) {
+        throw new Error(
+          "Server is not configured with an Anthropic API key. Please set ANTHROPIC_API_KEY.",
+        );
+      }
+      return createAnthropicProvider(settings, {
+        apiKey: process.env.ANTHROPIC_API_KEY,
+      });
+    }
+
+    case "openai-compatible":
+      // Local servers such as Ollama ignore the key, but the SDK requires one.
+      return createOpenAIProvider(settings, {
+        apiKey: process.env.LLM_API_KEY || "not-needed",
+        name: "openai-compatible",
+      });
+
+    case "mock":
+      return createMockProvider();
+  }
+}
+
+const providers = new Map<string, LLMProvider>();
+
+/**
+ * Get the LLM provider for the given settings overrides.
+ *
+ * Providers are created lazily, wrapped with timeouts, retries and a
+ * circuit breaker, and reused across requests. Throws if the selected
+ * provider is missing required credentials.
+ */
+export function getLLMProvider(
+  overrides: Partial<LLMSettings> = {},
+): LLMProvider {
+  const settings = resolveLLMSettings(overrides);
+  const key = JSON.stringify(settings);
+
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = withResilience(createProvider(settings), key);
+    providers.set(key, provider);
+  }
+
+  return provider;
+}
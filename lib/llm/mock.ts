@@ -0,0 +1,66 @@
+import type { LLMCompletionRequest, LLMProvider } from "./types";
+
+const MOCK_MESSAGES: Record<string, string> = {
+  ANSWER:
+    "Thank you for sharing that. It makes sense to feel this way. Given what's next for you, how would you like to show up?",
+  INTEND:
+    "That sounds like a kind intention. For the next three breaths, can you feel your feet on the floor and gently remember it?",
+  FOCUS:
+    "Thank you for taking those breaths. As you sit with your intention for a moment, what do you notice now—if anything at all?",
+  FLOW:
+    "There's no right way to feel here. What is one tiny, concrete action that would help you begin what's next?",
+  BEGIN:
+    "That's a clear first step. When you're ready, you can go do it now. I'm glad you took this moment to shift your presence.",
+};
+
+const FALLBACK_MESSAGE =
+  "Thank you for sharing that. What feels most present for you right now?";
+
+/**
+ * Default mock behavior: read the current and next step from the prompt
+ * and reply with a fixed message that moves the ritual to the next step.
+ */
+function defaultMockResponse(request: LLMCompletionRequest): string {
+  const prompt = request.messages.map((m) => m.content).join("\n");
+  const step = /Current Presence Shift step:\s*(\w+)/.exec(prompt)?.[1];
+  const nextStep =
+    /Next step when moving forward:\s*(\w+)/.exec(prompt)?.[1] ?? "DONE";
+
+  return JSON.stringify({
+    assistantMessage: (step && MOCK_MESSAGES[step]) ?? FALLBACK_MESSAGE,
+    nextStep,
+    notesUpdate: {},
+  });
+}
+
+/**
+ * Create a deterministic, offline provider.
+ *
+ * Useful for running the Companion locally without an API key and for
+ * exercising the chat route without network access. Pass `respond` to
+ * script exact model outputs.
+ */
+export function createMockProvider(
+  opts: { respond?: (request: LLMCompletionRequest) => string } = {},
+): LLMProvider {
+  const respond = opts.respond ?? defaultMockResponse;
+
+  return {
+    name: "mock",
+    model: "mock",
+
+    async complete(request) {
+      return respond(request);
+    },
+
+    async *stream(request) {
+      const text = respond(request);
+
+      // Emit in small chunks so streaming clients behave as they would
+      // against a real provider.
+      for (let i = 0; i < text.length; i += 16) {
+        yield text.slice(i, i + 16);
+      }
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import OpenAI from "openai";
+
+import type {
+  LLMCompletionRequest,
+  LLMProvider,
+  LLMProviderName,
+  LLMSettings,
+} from "./types";
+
+/**
+ * Create a provider backed by the OpenAI Chat Completions API.
+ *
+ * The same implementation serves OpenAI itself and any OpenAI-compatible
+ * server (such as Ollama), which only differ in base URL and API key.
+ */
+export function createOpenAIProvider(
+  settings: LLMSettings,
+  opts: { apiKey: string; name?: LLMProviderName },
+): LLMProvider {
+  // Retries are handled by the resilience wrapper, not the SDK.
+  const client = new OpenAI({
+    apiKey: opts.apiKey,
+    baseURL: settings.baseUrl,
+    maxRetries: 0,
+  });
+
+  function baseParams(request: LLMCompletionRequest) {
+    return {
+      model: settings.model,
+      messages: request.messages,
+      temperature: settings.temperature,
+      max_tokens: settings.maxTokens,
+      ...(request.jsonMode
+        ? { response_format: { type: "json_object" as const } }
+        : {}),
+    };
+  }
+
+  return {
+    name: opts.name ?? "openai",
+    model: settings.model,
+
+    async complete(request) {
+      const completion = await client.chat.completions.create(
+        baseParams(request),
+        { signal: request.signal },
+      );
+
+      const message = completion.choices[0]?.message;
+      return typeof message?.content === "string" ? message.content : "";
+    },
+
+    async *stream(request) {
+      const completion = await client.chat.completions.create(
+        { ...baseParams(request), stream: true },
+        { signal: request.signal },
+      );
+
+      for await (const chunk of completion) {
+        const piece = chunk.choices[0]?.delta?.content;
+        if (piece) {
+          yield piece;
+        }
+      }
+    },
+  };
+}
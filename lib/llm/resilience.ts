@@ -0,0 +1,387 @@
+import type {
+  LLMCompletionRequest,
+  LLMProvider,
+  LLMProviderName,
+} from "./types";
+
+/**
+ * Resilience layer wrapped around every LLM provider:
+ * - Per-call timeouts (for streams, the time allowed between chunks).
+ * - Retries with jittered exponential backoff for transient errors
+ *   (timeouts, network errors, 408/409/429 and 5xx responses).
+ * - A circuit breaker per provider that, after repeated failures, stops
+ *   calling the provider for a cooldown period so sessions are served by
+ *   the degraded, non-LLM scripted engine instead.
+ */
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Tunables for timeouts, retries and the circuit breaker.
+ */
+export interface ResilienceOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+/**
+ * Point-in-time view of a provider's circuit breaker, for monitoring.
+ * Served without authentication by `GET /api/health`, so it leaves out
+ * provider error messages; those only go to the server logs.
+ */
+export interface CircuitBreakerSnapshot {
+  provider: LLMProviderName;
+  model: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+  lastFailureAt?: string;
+  lastSuccessAt?: string;
+}
+
+/**
+ * Thrown when a provider call exceeds its timeout.
+ */
+export class LLMTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`LLM call timed out after ${timeoutMs}ms.`);
+    this.name = "LLMTimeoutError";
+  }
+}
+
+/**
+ * Thrown when a call is rejected because the provider's circuit is open.
+ */
+export class CircuitOpenError extends Error {
+  constructor(provider: LLMProviderName) {
+    super(`Circuit breaker for LLM provider "${provider}" is open.`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+/**
+ * Read resilience settings from the environment.
+ *
+ * - LLM_TIMEOUT_MS: per-call timeout (default: 20000)
+ * - LLM_MAX_RETRIES: retries for transient errors (default: 2)
+ * - LLM_BREAKER_FAILURES: consecutive failures that open the circuit (default: 5)
+ * - LLM_BREAKER_COOLDOWN_MS: how long the circuit stays open (default: 30000)
+ */
+export function getResilienceOptions(): ResilienceOptions {
+  return {
+    timeoutMs: parseNumber(process.env.LLM_TIMEOUT_MS, 20_000),
+    maxRetries: parseNumber(process.env.LLM_MAX_RETRIES, 2),
+    backoffBaseMs: 500,
+    backoffMaxMs: 8_000,
+    failureThreshold: Math.max(
+      1,
+      parseNumber(process.env.LLM_BREAKER_FAILURES, 5),
+    ),
+    cooldownMs: parseNumber(process.env.LLM_BREAKER_COOLDOWN_MS, 30_000),
+  };
+}
+
+function getStatus(err: unknown): number | undefined {
+  const status = (err as { status?: unknown } | null)?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Whether an error is worth retrying: timeouts, network failures without
+ * an HTTP status, and 408/409/429/5xx responses.
+ */
+export function isTransientError(err: unknown): boolean {
+  if (err instanceof LLMTimeoutError) return true;
+  if (err instanceof CircuitOpenError) return false;
+
+  const status = getStatus(err);
+  if (status === undefined) return true;
+
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * Whether an error says something about the provider's health (as opposed
+ * to a problem with one particular request) and should count toward
+ * opening the circuit.
+ */
+function isProviderFailure(err: unknown): boolean {
+  const status = getStatus(err);
+  return isTransientError(err) || status === 401 || status === 403;
+}
+
+/**
+ * Full-jitter exponential backoff delay for the given retry attempt.
+ */
+function backoffDelay(attempt: number, options: ResilienceOptions): number {
+  const ceiling = Math.min(
+    options.backoffMaxMs,
+    options.backoffBaseMs * 2 ** attempt,
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+interface CircuitBreaker {
+  canRequest(): boolean;
+  recordSuccess(): void;
+  recordFailure(err: unknown): void;
+  snapshot(): CircuitBreakerSnapshot;
+}
+
+function createCircuitBreaker(
+  provider: LLMProviderName,
+  model: string,
+  options: ResilienceOptions,
+): CircuitBreaker {
+  let state: CircuitState = "closed";
+  let consecutiveFailures = 0;
+  let openedAt: number | undefined;
+  let lastFailureAt: number | undefined;
+  let lastSuccessAt: number | undefined;
+  let trialInFlight = false;
+
+  function currentState(): CircuitState {
+    if (
+      state === "open" &&
+      openedAt !== undefined &&
+      Date.now() - openedAt >= options.cooldownMs
+    ) {
+      state = "half-open";
+      trialInFlight = false;
+    }
+    return state;
+  }
+
+  const iso = (t?: number) => (t ? new Date(t).toISOString() : undefined);
+
+  return {
+    canRequest() {
+      const s = currentState();
+      if (s === "closed") return true;
+      if (s === "half-open" && !trialInFlight) {
+        // Let a single trial call through to probe the provider
+        trialInFlight = true;
+        return true;
+      }
+      return false;
+    },
+
+    recordSuccess() {
+      if (state !== "closed") {
+        console.info(`LLM circuit for ${provider} closed.`);
+      }
+      state = "closed";
+      consecutiveFailures = 0;
+      openedAt = undefined;
+      trialInFlight = false;
+      lastSuccessAt = Date.now();
+    },
+
+    recordFailure(err) {
+      lastFailureAt = Date.now();
+
+      if (!isProviderFailure(err)) {
+        trialInFlight = false;
+        return;
+      }
+
+      consecutiveFailures += 1;
+
+      if (
+        currentState() === "half-open" ||
+        consecutiveFailures >= options.failureThreshold
+      ) {
+        if (state !== "open") {
+          console.error(
+            `LLM circuit for ${provider} opened after ${consecutiveFailures} consecutive failures:`,
+            err instanceof Error ? err.message : err,
+          );
+        }
+        state = "open";
+        openedAt = Date.now();
+        trialInFlight = false;
+      }
+    },
+
+    snapshot() {
+      return {
+        provider,
+        model,
+        state: currentState(),
+        consecutiveFailures,
+        openedAt: iso(openedAt),
+        lastFailureAt: iso(lastFailureAt),
+        lastSuccessAt: iso(lastSuccessAt),
+      };
+    },
+  };
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Snapshots of every provider's circuit breaker, for health checks and
+ * monitoring.
+ */
+export function getCircuitBreakerSnapshots(): CircuitBreakerSnapshot[] {
+  return Array.from(breakers.values(), (b) => b.snapshot());
+}
+
+/**
+ * Run `task` with a timeout that aborts its signal when it fires.
+ */
+async function withTimeout<T>(
+  timeoutMs: number,
+  outerSignal: AbortSignal | undefined,
+  task: (signal: AbortSignal) => Promise<T>,
+): Promise<T> {
+  const controller = new AbortController();
+  const onOuterAbort = () => controller.abort(outerSignal?.reason);
+  outerSignal?.addEventListener("abort", onOuterAbort);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new LLMTimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([task(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+    outerSignal?.removeEventListener("abort", onOuterAbort);
+  }
+}
+
+/**
+ * Wrap a provider with timeouts, retries and a circuit breaker.
+ *
+ * `key` identifies the provider configuration; wrappers created with the
+ * same key share one circuit breaker.
+ */
+export function withResilience(
+  provider: LLMProvider,
+  key: string,
+  options: ResilienceOptions = getResilienceOptions(),
+): LLMProvider {
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = createCircuitBreaker(provider.name, provider.model, options);
+    breakers.set(key, breaker);
+  }
+  const circuit = breaker;
+
+  async function complete(request: LLMCompletionRequest): Promise<string> {
+    for (let attempt = 0; ; attempt++) {
+      if (!circuit.canRequest()) {
+        throw new CircuitOpenError(provider.name);
+      }
+
+      try {
+        const text = await withTimeout(
+          options.timeoutMs,
+          request.signal,
+          (signal) => provider.complete({ ...request, signal }),
+        );
+        circuit.recordSuccess();
+        return text;
+      } catch (err) {
+        circuit.recordFailure(err);
+
+        if (attempt >= options.maxRetries || !isTransientError(err)) {
+          throw err;
+        }
+
+        const delay = backoffDelay(attempt, options);
+        console.warn(
+          `LLM call to ${provider.name} failed (attempt ${attempt + 1}); retrying in ${delay}ms:`,
+          err instanceof Error ? err.message : err,
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  async function* stream(
+    request: LLMCompletionRequest,
+  ): AsyncIterable<string> {
+    for (let attempt = 0; ; attempt++) {
+      if (!circuit.canRequest()) {
+        throw new CircuitOpenError(provider.name);
+      }
+
+      const controller = new AbortController();
+      const onOuterAbort = () => controller.abort(request.signal?.reason);
+      request.signal?.addEventListener("abort", onOuterAbort);
+
+      let yielded = false;
+
+      try {
+        const iterator = provider
+          .stream({ ...request, signal: controller.signal })
+          [Symbol.asyncIterator]();
+
+        while (true) {
+          // The timeout applies to the wait for each chunk
+          const next = await withTimeout(options.timeoutMs, undefined, () =>
+            iterator.next(),
+          ).catch((err) => {
+            controller.abort();
+            throw err;
+          });
+
+          if (next.done) break;
+
+          yielded = true;
+          yield next.value;
+        }
+
+        circuit.recordSuccess();
+        return;
+      } catch (err) {
+        circuit.recordFailure(err);
+
+        // Once text has reached the client, a retry would duplicate it
+        if (
+          yielded ||
+          attempt >= options.maxRetries ||
+          !isTransientError(err)
+        ) {
+          throw err;
+        }
+
+        const delay = backoffDelay(attempt, options);
+        console.warn(
+          `LLM stream from ${provider.name} failed (attempt ${attempt + 1}); retrying in ${delay}ms:`,
+          err instanceof Error ? err.message : err,
+        );
+        await sleep(delay);
+      } finally {
+        request.signal?.removeEventListener("abort", onOuterAbort);
+      }
+    }
+  }
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    complete,
+    stream,
+    isAvailable() {
+      return circuit.snapshot().state !== "open";
+    },
+  };
+}
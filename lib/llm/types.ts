@@ -0,0 +1,86 @@
+/**
+ * Shared types for the pluggable LLM provider layer.
+ */
+
+/**
+ * Supported provider identifiers.
+ *
+ * - `openai`: OpenAI Chat Completions API.
+ * - `anthropic`: Anthropic Messages API.
+ * - `openai-compatible`: any server exposing the OpenAI Chat Completions
+ *   API (e.g., Ollama, LM Studio, vLLM), addressed via `baseUrl`.
+ * - `mock`: deterministic, offline provider for local runs and tests.
+ */
+export type LLMProviderName =
+  | "openai"
+  | "anthropic"
+  | "openai-compatible"
+  | "mock";
+
+/**
+ * A single chat message passed to a provider.
+ */
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * A provider-agnostic completion request.
+ */
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+
+  /**
+   * Ask the provider to return a JSON object only, when it supports a
+   * native JSON mode. Providers without one rely on the prompt alone.
+   */
+  jsonMode?: boolean;
+
+  /**
+   * Aborts the underlying request, e.g., when a timeout fires.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Settings used to select and configure a provider.
+ *
+ * These can come from environment variables or from the `llm` section of
+ * a ritual's config JSON; ritual settings take precedence.
+ */
+export interface LLMSettings {
+  provider: LLMProviderName;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+
+  /**
+   * Base URL for `openai-compatible` servers (e.g., http://localhost:11434/v1).
+   */
+  baseUrl?: string;
+}
+
+/**
+ * Common interface implemented by every LLM provider.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+
+  /**
+   * Return the full text of a single completion.
+   */
+  complete(request: LLMCompletionRequest): Promise<string>;
+
+  /**
+   * Yield the text of a completion incrementally as it is generated.
+   */
+  stream(request: LLMCompletionRequest): AsyncIterable<string>;
+
+  /**
+   * Whether the provider is currently accepting calls. Returns false while
+   * its circuit breaker is open; absent on providers without one.
+   */
+  isAvailable?(): boolean;
+}
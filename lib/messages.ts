@@ -0,0 +1,395 @@
+import type { BreathingPhaseName } from "./breathing";
+import { matchLocale, type Locale } from "./i18n";
+
+/**
+ * User-facing copy of the app itself, per supported locale. Ritual text
+ * (step scripts, prompts, safety copy) comes from the ritual config and
+ * is translated there (see `localizeConfig`).
+ */
+export interface Messages {
+  languageLabel: string;
+
+  home: {
+    title: string;
+    intro: string;
+    invitedThrough: string;
+    duration: string;
+    chooseRitual: string;
+    begin: string;
+    notTherapy: string;
+    crisis: string;
+  };
+
+  shift: {
+    title: string;
+    subtitle: (stepCount: number) => string;
+    progressLabel: string;
+    welcomeBack: string;
+    pause: string;
+    resume: string;
+    skip: string;
+    restart: string;
+    end: string;
+    beginAgain: string;
+    confirmRestart: string;
+    confirmEnd: string;
+    paused: string;
+    resumed: string;
+    pausedRefused: string;
+    alreadyEnded: string;
+    actionFailed: string;
+    slowDown: (seconds: number) => string;
+    slowDownResend: (seconds: number) => string;
+    messageTooLong: (maxLength: number) => string;
+    turnLimit: string;
+    startFailed: string;
+    cannotContinue: string;
+    introQuestion: string;
+    introExamples: string;
+    nextLabel: string;
+    nextPlaceholder: string;
+    feelingQuestion: string;
+    feelingHint: string;
+    feelingChips: string[];
+    companionTyping: string;
+    summaryTitle: string;
+    summaryNext: string;
+    copy: string;
+    copied: string;
+    complete: string;
+    placeholder: string;
+    placeholderPaused: string;
+    placeholderDone: string;
+    send: string;
+    done: string;
+    footer: string;
+    breathingComplete: string;
+    breathingStopped: string;
+  };
+
+  voice: {
+    on: string;
+    off: string;
+    holdToTalk: string;
+    listening: string;
+    hint: string;
+    speaking: string;
+    noInput: string;
+    noOutput: string;
+    micBlocked: string;
+    notHeard: string;
+  };
+
+  breathing: {
+    regionLabel: string;
+    idle: string;
+    start: string;
+    stop: string;
+    phases: Record<BreathingPhaseName, string>;
+    overview: (breaths: number, seconds: number) => string;
+    progress: (breath: number, breaths: number, secondsLeft: number) => string;
+  };
+
+  /**
+   * Copy the server adds to the conversation or summary itself.
+   */
+  server: {
+    safetyFallback: string;
+    safetyCheckIn: string;
+    safetyResources: string;
+    endedEarly: string;
+    scriptedNote: string;
+    scriptedClosing: string;
+    summaryTitle: string;
+    summaryNext: string;
+  };
+}
+
+const en: Messages = {
+  languageLabel: "Language",
+
+  home: {
+    title: "The Presence Shift Companion",
+    intro:
+      "A brief, guided ritual to help you shift your presence for what’s next in your day. Designed for real, in-between moments— before a session, a deep work block, or a transition at home.",
+    invitedThrough: "You’ll be invited through:",
+    duration: "Most Presence Shifts take about 2–5 minutes.",
+    chooseRitual: "Choose a Presence Shift:",
+    begin: "Begin a Presence Shift",
+    notTherapy:
+      "This Companion is not a substitute for therapy, medical care, or crisis support.",
+    crisis:
+      "If you are in crisis or concerned about your safety, please contact your local emergency number or a crisis line in your area.",
+  },
+
+  shift: {
+    title: "Presence Shift Companion",
+    subtitle: (stepCount) =>
+      stepCount > 0
+        ? `A brief, guided ${stepCount}-step ritual`
+        : "A brief, guided ritual",
+    progressLabel: "Presence Shift progress",
+    welcomeBack: "Welcome back. We’ll pick up where you left off.",
+    pause: "Pause",
+    resume: "Resume",
+    skip: "Skip step",
+    restart: "Restart",
+    end: "End",
+    beginAgain: "Begin again",
+    confirmRestart: "Start this Presence Shift over from the beginning?",
+    confirmEnd: "End this Presence Shift now?",
+    paused:
+      "Paused. Take the time you need, and press Resume when you’re ready.",
+    resumed: "Welcome back. Let’s continue.",
+    pausedRefused:
+      "This Presence Shift is paused. Press Resume when you’re ready to continue.",
+    alreadyEnded: "This Presence Shift has already ended.",
+    actionFailed: "That didn’t work just now. Please try again.",
+    slowDown: (seconds) =>
+      `Let’s slow down for a moment. You can try again in ${seconds} seconds.`,
+    slowDownResend: (seconds) =>
+      `Let’s slow down for a moment. You can send your message again in ${seconds} seconds.`,
+    messageTooLong: (maxLength) =>
+      `That message is a little long. Please keep it under ${maxLength} characters.`,
+    turnLimit:
+      "This Presence Shift has gone on longer than usual, so we’ll close it here. You can refresh the page to begin a new one.",
+    startFailed:
+      "Something went wrong starting this Presence Shift. You can refresh the page and try again.",
+    cannotContinue:
+      "I’m not able to continue this Presence Shift right now. You can refresh the page to begin again later.",
+    introQuestion: "Before we shift, what’s next in your day?",
+    introExamples:
+      "For example: “client session”, “deep work”, “family time”, or “commute home”.",
+    nextLabel: "What’s next?",
+    nextPlaceholder: "One short phrase is enough",
+    feelingQuestion: "And how does your day feel right now?",
+    feelingHint:
+      "You can tap a word below, or type in your own words at the bottom.",
+    feelingChips: [
+      "stressed",
+      "scattered",
+      "tired",
+      "anxious",
+      "flat",
+      "on edge",
+    ],
+    companionTyping: "The Companion is with you…",
+    summaryTitle: "Your Presence Shift",
+    summaryNext: "What’s next",
+    copy: "Copy",
+    copied: "Copied",
+    complete:
+      "This Presence Shift is complete. You can close this page or begin again another time.",
+    placeholder: "Type what’s here for you right now…",
+    placeholderPaused: "Paused. Press Resume when you’re ready.",
+    placeholderDone: "This Presence Shift is complete.",
+    send: "Send",
+    done: "Done",
+    footer:
+      "This Companion offers presence-shifting guidance, not therapy or crisis support.",
+    breathingComplete:
+      "Breathing complete. Share what you noticed whenever you’re ready.",
+    breathingStopped:
+      "Breathing stopped. That’s completely okay; continue whenever you’re ready.",
+  },
+
+  voice: {
+    on: "Voice on",
+    off: "Voice off",
+    holdToTalk: "Hold to talk",
+    listening: "Listening…",
+    hint: "Hold the button while you speak, then let go to send.",
+    speaking: "The Companion is speaking. Hold to talk to interrupt.",
+    noInput:
+      "Voice input isn’t available in this browser, so type your replies; the Companion will still speak.",
+    noOutput:
+      "Spoken replies aren’t available in this browser; hold the button to talk and read the replies here.",
+    micBlocked:
+      "Microphone access isn’t available, so please type your reply instead.",
+    notHeard:
+      "I couldn’t hear that clearly. You can try again or type instead.",
+  },
+
+  breathing: {
+    regionLabel: "Guided breathing",
+    idle: "A few slow breaths",
+    start: "Breathe with me",
+    stop: "Stop",
+    phases: {
+      inhale: "Breathe in",
+      hold: "Hold",
+      exhale: "Breathe out",
+      rest: "Rest",
+    },
+    overview: (breaths, seconds) =>
+      `${breaths} breaths, about ${seconds} seconds`,
+    progress: (breath, breaths, secondsLeft) =>
+      `Breath ${breath} of ${breaths} · ${secondsLeft}s left`,
+  },
+
+  server: {
+    safetyFallback:
+      "It sounds like you might be going through something very intense. I’m not able to help with crises or safety concerns. If you’re in immediate danger, please contact your local emergency number or a crisis line right away.",
+    safetyCheckIn:
+      "That sounds like a lot to be carrying. Before we go on, how are you doing right now? We can take this as slowly as you need.",
+    safetyResources:
+      "If things feel like too much, you don’t have to hold them alone. A trusted person, a counselor or a crisis line can help, and if you are in immediate danger, please contact your local emergency number.",
+    endedEarly:
+      "Thank you for taking this moment for yourself. You can come back to a Presence Shift whenever you like.",
+    scriptedNote: "Thank you for sharing that.",
+    scriptedClosing:
+      "When you’re ready, you can go do that one small step now. I’m glad you took this moment to shift your presence.",
+    summaryTitle: "My Presence Shift",
+    summaryNext: "What’s next",
+  },
+};
+
+const es: Messages = {
+  languageLabel: "Idioma",
+
+  home: {
+    title: "El Compañero de Presence Shift",
+    intro:
+      "Un ritual breve y guiado para ayudarte a cambiar tu presencia para lo que sigue en tu día. Pensado para los momentos intermedios reales: antes de una sesión, de un bloque de trabajo profundo o de una transición en casa.",
+    invitedThrough: "Te guiaremos por:",
+    duration: "La mayoría de los Presence Shifts duran entre 2 y 5 minutos.",
+    chooseRitual: "Elige un Presence Shift:",
+    begin: "Comenzar un Presence Shift",
+    notTherapy:
+      "Este Compañero no sustituye la terapia, la atención médica ni el apoyo en crisis.",
+    crisis:
+      "Si estás en crisis o te preocupa tu seguridad, contacta con el número de emergencias local o con una línea de crisis de tu zona.",
+  },
+
+  shift: {
+    title: "Compañero de Presence Shift",
+    subtitle: (stepCount) =>
+      stepCount > 0
+        ? `Un ritual breve y guiado de ${stepCount} pasos`
+        : "Un ritual breve y guiado",
+    progressLabel: "Progreso del Presence Shift",
+    welcomeBack: "Bienvenido de nuevo. Seguiremos donde lo dejaste.",
+    pause: "Pausar",
+    resume: "Reanudar",
+    skip: "Saltar paso",
+    restart: "Reiniciar",
+    end: "Terminar",
+    beginAgain: "Empezar de nuevo",
+    confirmRestart:
+      "¿Empezar este Presence Shift de nuevo desde el principio?",
+    confirmEnd: "¿Terminar este Presence Shift ahora?",
+    paused:
+      "En pausa. Tómate el tiempo que necesites y pulsa Reanudar cuando estés listo.",
+    resumed: "Bienvenido de nuevo. Sigamos.",
+    pausedRefused:
+      "Este Presence Shift está en pausa. Pulsa Reanudar cuando quieras continuar.",
+    alreadyEnded: "Este Presence Shift ya ha terminado.",
+    actionFailed: "Eso no ha funcionado ahora. Inténtalo de nuevo.",
+    slowDown: (seconds) =>
+      `Vayamos más despacio un momento. Puedes volver a intentarlo en ${seconds} segundos.`,
+    slowDownResend: (seconds) =>
+      `Vayamos más despacio un momento. Puedes volver a enviar tu mensaje en ${seconds} segundos.`,
+    messageTooLong: (maxLength) =>
+      `Ese mensaje es un poco largo. Intenta que tenga menos de ${maxLength} caracteres.`,
+    turnLimit:
+      "Este Presence Shift se ha alargado más de lo habitual, así que lo cerraremos aquí. Puedes recargar la página para empezar uno nuevo.",
+    startFailed:
+      "Algo salió mal al empezar este Presence Shift. Puedes recargar la página e intentarlo de nuevo.",
+    cannotContinue:
+      "No puedo continuar este Presence Shift ahora mismo. Puedes recargar la página para empezar de nuevo más tarde.",
+    introQuestion: "Antes de empezar, ¿qué es lo siguiente en tu día?",
+    introExamples:
+      "Por ejemplo: «sesión con un cliente», «trabajo concentrado», «tiempo en familia» o «vuelta a casa».",
+    nextLabel: "¿Qué sigue?",
+    nextPlaceholder: "Basta con una frase corta",
+    feelingQuestion: "¿Y cómo se siente tu día ahora mismo?",
+    feelingHint:
+      "Puedes tocar una palabra de abajo o escribir con tus propias palabras al final.",
+    feelingChips: [
+      "estresado",
+      "disperso",
+      "cansado",
+      "ansioso",
+      "apagado",
+      "tenso",
+    ],
+    companionTyping: "El Compañero está contigo…",
+    summaryTitle: "Tu Presence Shift",
+    summaryNext: "Lo que sigue",
+    copy: "Copiar",
+    copied: "Copiado",
+    complete:
+      "Este Presence Shift ha terminado. Puedes cerrar esta página o empezar de nuevo en otro momento.",
+    placeholder: "Escribe lo que está presente para ti ahora…",
+    placeholderPaused: "En pausa. Pulsa Reanudar cuando estés listo.",
+    placeholderDone: "Este Presence Shift ha terminado.",
+    send: "Enviar",
+    done: "Hecho",
+    footer:
+      "Este Compañero ofrece orientación para cambiar tu presencia, no terapia ni apoyo en crisis.",
+    breathingComplete:
+      "Respiración completada. Cuenta lo que has notado cuando quieras.",
+    breathingStopped:
+      "Respiración detenida. No pasa nada; continúa cuando quieras.",
+  },
+
+  voice: {
+    on: "Voz activada",
+    off: "Voz desactivada",
+    holdToTalk: "Mantén para hablar",
+    listening: "Escuchando…",
+    hint: "Mantén pulsado el botón mientras hablas y suéltalo para enviar.",
+    speaking: "El Compañero está hablando. Mantén pulsado para interrumpir.",
+    noInput:
+      "La entrada de voz no está disponible en este navegador, así que escribe tus respuestas; el Compañero seguirá hablando.",
+    noOutput:
+      "Las respuestas habladas no están disponibles en este navegador; mantén pulsado el botón para hablar y lee las respuestas aquí.",
+    micBlocked:
+      "El micrófono no está disponible, así que escribe tu respuesta.",
+    notHeard:
+      "No te he oído con claridad. Puedes intentarlo de nuevo o escribir.",
+  },
+
+  breathing: {
+    regionLabel: "Respiración guiada",
+    idle: "Unas respiraciones lentas",
+    start: "Respira conmigo",
+    stop: "Detener",
+    phases: {
+      inhale: "Inhala",
+      hold: "Mantén",
+      exhale: "Exhala",
+      rest: "Descansa",
+    },
+    overview: (breaths, seconds) =>
+      `${breaths} respiraciones, unos ${seconds} segundos`,
+    progress: (breath, breaths, secondsLeft) =>
+      `Respiración ${breath} de ${breaths} · quedan ${secondsLeft} s`,
+  },
+
+  server: {
+    safetyFallback:
+      "Parece que podrías estar pasando por algo muy intenso. No puedo ayudar con crisis ni con problemas de seguridad. Si estás en peligro inmediato, contacta ahora mismo con el número de emergencias local o con una línea de crisis.",
+    safetyCheckIn:
+      "Parece que estás cargando con mucho. Antes de seguir, ¿cómo estás ahora mismo? Podemos ir tan despacio como necesites.",
+    safetyResources:
+      "Si las cosas se sienten demasiado, no tienes que sostenerlas a solas. Una persona de confianza, un profesional o una línea de crisis pueden ayudarte, y si estás en peligro inmediato, contacta con el número de emergencias local.",
+    endedEarly:
+      "Gracias por tomarte este momento para ti. Puedes volver a un Presence Shift cuando quieras.",
+    scriptedNote: "Gracias por compartirlo.",
+    scriptedClosing:
+      "Cuando estés listo, puedes dar ese pequeño paso ahora. Me alegra que te hayas tomado este momento para cambiar tu presencia.",
+    summaryTitle: "Mi Presence Shift",
+    summaryNext: "Lo que sigue",
+  },
+};
+
+const MESSAGES: Record<Locale, Messages> = { en, es };
+
+/**
+ * The app's copy in `locale`, falling back to English for unsupported
+ * locales.
+ */
+export function getMessages(locale: string | null | undefined): Messages {
+  return MESSAGES[matchLocale(locale) ?? "en"];
+}
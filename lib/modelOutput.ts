@@ -0,0 +1,255 @@
+import { PresenceStep, SessionNotes, TurnResult } from "./types";
+import {
+  getStepDefinition,
+  getStepNoteKey,
+  getStepSequence,
+} from "./stepMachine";
+import type { PresenceConfig } from "./config";
+import type { LLMMessage, LLMProvider } from "./llm";
+import { checkRitualRules } from "./promptInjection";
+import { checkOutputSafety } from "./safety";
+
+/**
+ * Validation and repair of the JSON object the model returns each turn.
+ *
+ * Expected shape:
+ * {
+ *   "assistantMessage": string (non-empty),
+ *   "nextStep": one of the ritual's step IDs, or "DONE",
+ *   "notesUpdate"?: { [lowercase step ID]: string }
+ * }
+ */
+
+const DEFAULT_REPAIR_ATTEMPTS = 1;
+
+export type ModelOutputValidation =
+  | { ok: true; value: TurnResult }
+  | { ok: false; error: string };
+
+/**
+ * Maximum number of times the model is re-asked after an invalid reply,
+ * from LLM_REPAIR_ATTEMPTS (default: 1, 0 disables repair).
+ */
+export function getMaxRepairAttempts(): number {
+  const value = Number(process.env.LLM_REPAIR_ATTEMPTS);
+  return process.env.LLM_REPAIR_ATTEMPTS && Number.isFinite(value)
+    ? Math.max(0, Math.floor(value))
+    : DEFAULT_REPAIR_ATTEMPTS;
+}
+
+/**
+ * Pull the JSON object out of a reply that may be wrapped in markdown
+ * fences or surrounded by stray text.
+ */
+function extractJsonObject(text: string): string {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text;
+}
+
+/**
+ * The `nextStep` values of a ritual, formatted for prompts and errors.
+ */
+export function formatStepChoices(config: PresenceConfig): string {
+  return getStepSequence(config)
+    .map((step) => `"${step}"`)
+    .join(" | ");
+}
+
+/**
+ * Parse and validate raw model text against the turn schema for the
+ * ritual defined by `config`.
+ *
+ * Unknown or non-string note fields are dropped rather than rejected,
+ * since they do not affect the ritual.
+ */
+export function validateModelOutput(
+  text: string,
+  config: PresenceConfig,
+): ModelOutputValidation {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(extractJsonObject(text.trim()));
+  } catch (err) {
+    return {
+      ok: false,
+      error: `Reply is not valid JSON (${err instanceof Error ? err.message : String(err)}).`,
+    };
+  }
+
+  if (
+    typeof parsed !== "object" ||
+    parsed === null ||
+    Array.isArray(parsed)
+  ) {
+    return { ok: false, error: "Reply must be a single JSON object." };
+  }
+
+  const { assistantMessage, nextStep, notesUpdate } = parsed as Record<
+    string,
+    unknown
+  >;
+
+  if (typeof assistantMessage !== "string" || !assistantMessage.trim()) {
+    return {
+      ok: false,
+      error: `"assistantMessage" must be a non-empty string.`,
+    };
+  }
+
+  const steps = getStepSequence(config);
+
+  if (typeof nextStep !== "string" || !steps.includes(nextStep)) {
+    return {
+      ok: false,
+      error: `"nextStep" must be one of ${steps.map((s) => `"${s}"`).join(", ")}.`,
+    };
+  }
+
+  if (
+    notesUpdate !== undefined &&
+    notesUpdate !== null &&
+    (typeof notesUpdate !== "object" || Array.isArray(notesUpdate))
+  ) {
+    return { ok: false, error: `"notesUpdate" must be an object if present.` };
+  }
+
+  const notes: Partial<SessionNotes> = {};
+  if (notesUpdate) {
+    const noteKeys = getStepDefinition(config).sequence.map(getStepNoteKey);
+    for (const key of noteKeys) {
+      const value = (notesUpdate as Record<string, unknown>)[key];
+      if (typeof value === "string" && value.trim()) {
+        notes[key] = value.trim();
+      }
+    }
+  }
+
+  return {
+    ok: true,
+    value: {
+      assistantMessage: assistantMessage.trim(),
+      nextStep,
+      notesUpdate: notes,
+    },
+  };
+}
+
+/**
+ * A reply that broke one of the ritual's `safety.outputRules`.
+ */
+export interface OutputViolation {
+  ruleId: string;
+  attempt: number;
+  /**
+   * The normalized text of the reply that matched the rule.
+   */
+  matchedText: string;
+  /**
+   * The reply that broke the rule.
+   */
+  assistantMessage: string;
+}
+
+/**
+ * Check a parsed reply against the ritual's output rules (see
+ * `checkOutputSafety`). Returns the error to give the model, or null.
+ */
+function checkReplySafety(
+  result: TurnResult,
+  config: PresenceConfig,
+  attempt: number,
+  onOutputViolation?: (violation: OutputViolation) => void,
+): string | null {
+  const { ok, rule } = checkOutputSafety(result.assistantMessage, config);
+  if (ok || !rule) return null;
+
+  console.warn(
+    `Model reply broke output rule "${rule.id}" (attempt ${attempt + 1}): matched "${rule.matchedText}".`,
+  );
+  onOutputViolation?.({
+    ruleId: rule.id,
+    attempt: attempt + 1,
+    matchedText: rule.matchedText,
+    assistantMessage: result.assistantMessage,
+  });
+
+  return `"assistantMessage" breaks this rule: ${rule.description} Rewrite it so it follows the rule.`;
+}
+
+/**
+ * Validate a model reply and, if it is invalid, breaks the ritual rules
+ * for the current `step` (see `checkRitualRules`) or breaks one of the
+ * ritual's output rules (see `checkOutputSafety`), re-ask the model with
+ * the error up to `maxAttempts` times. Each output rule violation is
+ * logged and passed to `onOutputViolation`.
+ *
+ * Returns null when no valid reply was obtained; callers should fall back
+ * to a scripted step message rather than ending the session.
+ */
+export async function resolveModelOutput({
+  provider,
+  messages,
+  text,
+  step,
+  config,
+  maxAttempts = getMaxRepairAttempts(),
+  onOutputViolation,
+}: {
+  provider: LLMProvider;
+  messages: LLMMessage[];
+  text: string;
+  step: PresenceStep;
+  config: PresenceConfig;
+  maxAttempts?: number;
+  onOutputViolation?: (violation: OutputViolation) => void;
+}): Promise<TurnResult | null> {
+  let candidate = text;
+  let conversation = messages;
+
+  for (let attempt = 0; ; attempt++) {
+    const validation = validateModelOutput(candidate, config);
+    const error = validation.ok
+      ? (checkRitualRules(validation.value, step, config) ??
+        checkReplySafety(
+          validation.value,
+          config,
+          attempt,
+          onOutputViolation,
+        ))
+      : validation.error;
+
+    if (validation.ok && !error) {
+      return validation.value;
+    }
+
+    console.warn(
+      `Invalid model output from ${provider.name} (attempt ${attempt + 1}): ${error}`,
+    );
+
+    if (attempt >= maxAttempts) {
+      console.error("Raw response:", candidate);
+      return null;
+    }
+
+    conversation = [
+      ...conversation,
+      { role: "assistant", content: candidate },
+      {
+        role: "user",
+        content: `Your previous reply could not be used: ${error} Reply again with ONLY the JSON object in the required format: {"assistantMessage": string, "nextStep": ${formatStepChoices(config)}, "notesUpdate": object}. No markdown, no extra text.`,
+      },
+    ];
+
+    try {
+      candidate = await provider.complete({
+        messages: conversation,
+        jsonMode: true,
+      });
+    } catch (err) {
+      console.error(`Repair request to ${provider.name} failed:`, err);
+      return null;
+    }
+  }
+}
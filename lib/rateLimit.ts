@@ -0,0 +1,293 @@
+import { NextResponse } from "next/server";
+
+/**
+ * Abuse protection for the chat API: token-bucket rate limits per client
+ * IP and per session, plus caps on message length and turns per session.
+ *
+ * Notes:
+ * - Buckets live in server memory, so limits apply per server instance.
+ *   Behind several instances, set the limits with that in mind.
+ * - A bucket holds up to `capacity` tokens and refills continuously at
+ *   `refillPerMinute`; each request spends one token.
+ */
+
+/**
+ * Settings for a single token bucket.
+ */
+export interface TokenBucketOptions {
+  /**
+   * Maximum burst size. 0 disables the limit.
+   */
+  capacity: number;
+  refillPerMinute: number;
+}
+
+/**
+ * Limits applied to `POST /api/chat` and `POST /api/chat/action`.
+ */
+export interface ChatLimits {
+  ip: TokenBucketOptions;
+  session: TokenBucketOptions;
+
+  /**
+   * Per-session limit for `POST /api/chat/action`, separate from the
+   * chat's so pausing, resuming or skipping does not use up turns.
+   */
+  action: TokenBucketOptions;
+
+  /**
+   * Maximum user turns in a single session, counted across restarts (see
+   * `countLifetimeTurns`). 0 disables the cap.
+   */
+  maxTurnsPerSession: number;
+
+  /**
+   * Maximum length of `userMessage`, in characters.
+   */
+  maxMessageLength: number;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; retryAfterSeconds: number };
+
+export interface RateLimiter {
+  /**
+   * Spend one token for `key`, or report how long until one is available.
+   */
+  consume(key: string): RateLimitResult;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Upper bound on tracked keys per limiter, so a flood of distinct keys
+ * cannot grow memory without limit.
+ */
+const MAX_TRACKED_KEYS = 10_000;
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+/**
+ * Read chat limits from the environment.
+ *
+ * - RATE_LIMIT_IP_CAPACITY: burst of requests per IP (default: 30, 0 disables)
+ * - RATE_LIMIT_IP_REFILL_PER_MINUTE: sustained requests per IP (default: 10)
+ * - RATE_LIMIT_SESSION_CAPACITY: burst per session (default: 5, 0 disables)
+ * - RATE_LIMIT_SESSION_REFILL_PER_MINUTE: sustained per session (default: 4)
+ * - RATE_LIMIT_ACTION_CAPACITY: burst of in-ritual actions per session
+ *   (default: 10, 0 disables)
+ * - RATE_LIMIT_ACTION_REFILL_PER_MINUTE: sustained actions per session
+ *   (default: 10)
+ * - MAX_TURNS_PER_SESSION: user turns per session, restarts included
+ *   (default: 40, 0 disables)
+ * - MAX_USER_MESSAGE_LENGTH: characters per message (default: 2000)
+ */
+export function getChatLimits(): ChatLimits {
+  return {
+    ip: {
+      capacity: parseNumber(process.env.RATE_LIMIT_IP_CAPACITY, 30),
+      refillPerMinute: parseNumber(
+        process.env.RATE_LIMIT_IP_REFILL_PER_MINUTE,
+        10,
+      ),
+    },
+    session: {
+      capacity: parseNumber(process.env.RATE_LIMIT_SESSION_CAPACITY, 5),
+      refillPerMinute: parseNumber(
+        process.env.RATE_LIMIT_SESSION_REFILL_PER_MINUTE,
+        4,
+      ),
+    },
+    action: {
+      capacity: parseNumber(process.env.RATE_LIMIT_ACTION_CAPACITY, 10),
+      refillPerMinute: parseNumber(
+        process.env.RATE_LIMIT_ACTION_REFILL_PER_MINUTE,
+        10,
+      ),
+    },
+    maxTurnsPerSession: parseNumber(process.env.MAX_TURNS_PER_SESSION, 40),
+    maxMessageLength: Math.max(
+      1,
+      parseNumber(process.env.MAX_USER_MESSAGE_LENGTH, 2000),
+    ),
+  };
+}
+
+/**
+ * Create an in-memory token-bucket rate limiter.
+ */
+export function createRateLimiter(options: TokenBucketOptions): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = options.refillPerMinute / 60_000;
+
+  function refill(bucket: Bucket, now: number): void {
+    bucket.tokens = Math.min(
+      options.capacity,
+      bucket.tokens + (now - bucket.updatedAt) * refillPerMs,
+    );
+    bucket.updatedAt = now;
+  }
+
+  /**
+   * Drop buckets that have refilled completely (they behave exactly like a
+   * missing bucket), then the oldest ones if still over the cap.
+   */
+  function prune(now: number): void {
+    for (const [key, bucket] of buckets) {
+      refill(bucket, now);
+      if (bucket.tokens >= options.capacity) {
+        buckets.delete(key);
+      }
+    }
+
+    for (const key of buckets.keys()) {
+      if (buckets.size < MAX_TRACKED_KEYS) break;
+      buckets.delete(key);
+    }
+  }
+
+  return {
+    consume(key) {
+      if (options.capacity <= 0) {
+        return { allowed: true };
+      }
+
+      const now = Date.now();
+      let bucket = buckets.get(key);
+
+      if (bucket) {
+        refill(bucket, now);
+      } else {
+        if (buckets.size >= MAX_TRACKED_KEYS) {
+          prune(now);
+        }
+        bucket = { tokens: options.capacity, updatedAt: now };
+        buckets.set(key, bucket);
+      }
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true };
+      }
+
+      const retryAfterSeconds =
+        refillPerMs > 0
+          ? Math.max(1, Math.ceil((1 - bucket.tokens) / refillPerMs / 1000))
+          : 60;
+
+      return { allowed: false, retryAfterSeconds };
+    },
+  };
+}
+
+/**
+ * Number of proxies in front of the app that append to `X-Forwarded-For`,
+ * from TRUSTED_PROXY_HOPS (default: 0, meaning the header is not used).
+ */
+export function getTrustedProxyHops(): number {
+  return Math.floor(parseNumber(process.env.TRUSTED_PROXY_HOPS, 0));
+}
+
+/**
+ * Client IP as seen by the platform or a trusted proxy.
+ *
+ * Clients can send any `X-Forwarded-For` they like, and each proxy only
+ * appends to it, so the leftmost entry is never trusted. With
+ * `trustedProxyHops` set, the entry appended by the outermost trusted
+ * proxy is used: the `trustedProxyHops`-th from the right. Otherwise the
+ * IP comes from `X-Real-IP`, which the platform (e.g. Vercel) or proxy
+ * sets itself. Returns null when there is neither.
+ */
+export function getClientIp(
+  headers: Headers,
+  trustedProxyHops = getTrustedProxyHops(),
+): string | null {
+  const forwarded = headers.get("x-forwarded-for");
+  if (trustedProxyHops > 0 && forwarded) {
+    const entries = forwarded
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    const ip = entries[Math.max(0, entries.length - trustedProxyHops)];
+    if (ip) return ip;
+  }
+
+  return headers.get("x-real-ip")?.trim() || null;
+}
+
+let warnedNoClientIp = false;
+
+/**
+ * Spend a token from the per-IP `limiter` for a request. Requests without
+ * a trusted client IP (see `getClientIp`) skip the per-IP limit rather
+ * than all sharing one bucket, and rely on the per-session limit; a
+ * warning is logged the first time.
+ */
+export function consumeIpLimit(
+  limiter: RateLimiter,
+  headers: Headers,
+): RateLimitResult {
+  const ip = getClientIp(headers);
+
+  if (!ip) {
+    if (!warnedNoClientIp) {
+      warnedNoClientIp = true;
+      console.warn(
+        "No client IP (X-Real-IP, or X-Forwarded-For with TRUSTED_PROXY_HOPS); per-IP rate limits are skipped.",
+      );
+    }
+    return { allowed: true };
+  }
+
+  return limiter.consume(ip);
+}
+
+/**
+ * The 429 response for a request refused by a rate limiter, with a
+ * `Retry-After` header.
+ */
+export function rateLimited(retryAfterSeconds: number): NextResponse {
+  return NextResponse.json(
+    {
+      error: "Too many requests. Please wait a moment and try again.",
+      code: "rate_limited",
+      retryAfterSeconds,
+    },
+    {
+      status: 429,
+      headers: { "Retry-After": String(retryAfterSeconds) },
+    },
+  );
+}
+
+interface ChatRateLimiters {
+  ip: RateLimiter;
+  session: RateLimiter;
+  action: RateLimiter;
+}
+
+let chatLimiters: ChatRateLimiters | null = null;
+
+/**
+ * Shared limiters for `POST /api/chat` and `POST /api/chat/action`: per
+ * IP for both, and per session for chat turns and for actions.
+ */
+export function getChatRateLimiters(): ChatRateLimiters {
+  if (!chatLimiters) {
+    const limits = getChatLimits();
+    chatLimiters = {
+      ip: createRateLimiter(limits.ip),
+      session: createRateLimiter(limits.session),
+      action: createRateLimiter(limits.action),
+    };
+  }
+
+  return chatLimiters;
+}
@@ -0,0 +1,16 @@
+import { cookies, headers } from "next/headers";
+
+import { LOCALE_COOKIE, resolveLocale, type Locale } from "./i18n";
+
+/**
+ * The locale of the page being rendered: the language picker's cookie,
+ * then `Accept-Language`, then DEFAULT_LOCALE. For server components only.
+ */
+export async function getRequestLocale(): Promise<Locale> {
+  const [cookieStore, headerList] = await Promise.all([cookies(), headers()]);
+
+  return resolveLocale({
+    cookie: cookieStore.get(LOCALE_COOKIE)?.value,
+    acceptLanguage: headerList.get("accept-language"),
+  });
+}
@@ -1,4 +1,158 @@
-import { getPresenceConfig } from "./config";
+import type { PresenceConfig } from "./config";
+import { getMessages } from "./messages";
+
+/**
+ * How strongly the Companion responds to a safety rule match, from
+ * lightest to strongest:
+ * - "check_in": reply with a gentle check-in instead of moving the ritual
+ *   on; the session continues on the same step.
+ * - "resources": continue the ritual, adding support resources to the
+ *   reply.
+ * - "hard_stop": end the session with the crisis response.
+ */
+export type SafetySeverity = "check_in" | "resources" | "hard_stop";
+
+export const SAFETY_SEVERITIES: SafetySeverity[] = [
+  "check_in",
+  "resources",
+  "hard_stop",
+];
+
+/**
+ * What a safety rule looks for, shared by input and output rules.
+ */
+interface SafetyMatcherConfig {
+  /**
+   * Identifies the rule in results and analytics (e.g. "self_harm").
+   */
+  id: string;
+  /**
+   * Words or phrases to look for. They are normalized like the user's
+   * text, so "can't go on" also matches "cant go on" and "caaan't go on".
+   */
+  phrases?: string[];
+  /**
+   * Regular expressions, matched case-insensitively against the
+   * normalized text: lowercase letters and digits without accents, with
+   * words separated by single spaces.
+   */
+  patterns?: string[];
+  /**
+   * Phrases that cancel a match they overlap, for idioms such as "kill
+   * myself laughing".
+   */
+  exceptions?: string[];
+  /**
+   * Ignore matches governed by a negation ("I'm not hopeless") (default:
+   * true, except for "hard_stop" rules).
+   */
+  negatable?: boolean;
+  /**
+   * Messages the rule must match (`flagged`) and must not match
+   * (`ignored`). They are checked when the config is saved, so an edit
+   * that stops a rule catching a known phrasing is rejected.
+   */
+  examples?: SafetyRuleExamples;
+}
+
+export interface SafetyRuleExamples {
+  flagged?: string[];
+  ignored?: string[];
+}
+
+/**
+ * A rule in the `safety.rules` section of a ritual config, checked
+ * against the user's messages.
+ */
+export interface SafetyRuleConfig extends SafetyMatcherConfig {
+  severity: SafetySeverity;
+  /**
+   * Reply for this rule instead of the template for its severity.
+   */
+  message?: string;
+}
+
+/**
+ * A rule in the `safety.outputRules` section of a ritual config, checked
+ * against the Companion's replies.
+ */
+export interface OutputRuleConfig extends SafetyMatcherConfig {
+  /**
+   * The guideline the rule enforces (e.g. "Do not diagnose or label
+   * mental health conditions."), given to the model when it is asked to
+   * rewrite a reply.
+   */
+  description: string;
+}
+
+/**
+ * The `safety` section of a ritual config.
+ */
+export interface SafetyConfig {
+  disclaimer: string;
+  /**
+   * Reply for "hard_stop" matches, followed by the disclaimer.
+   */
+  crisisTemplate: string;
+  /**
+   * Reply for "check_in" matches.
+   */
+  checkInTemplate?: string;
+  /**
+   * Text added to the reply for "resources" matches.
+   */
+  resourcesTemplate?: string;
+  rules?: SafetyRuleConfig[];
+  /**
+   * Rules the Companion's replies must not break (see
+   * `checkOutputSafety`).
+   */
+  outputRules?: OutputRuleConfig[];
+  /**
+   * Phrases checked as a "hard_stop" rule with id "keywords". Prefer
+   * `rules` for new configs.
+   */
+  keywords?: string[];
+  /**
+   * Words that negate a phrase shortly after them in the same clause
+   * (default: common English negations).
+   */
+  negations?: string[];
+}
+
+/**
+ * The rule a message matched.
+ */
+export interface SafetyRuleMatch {
+  id: string;
+  severity: SafetySeverity;
+  /**
+   * The normalized text that matched.
+   */
+  matchedText: string;
+}
+
+/**
+ * Result of checking a reply against the output rules.
+ */
+export interface OutputSafetyResult {
+  /**
+   * Whether the reply can be sent to the user.
+   */
+  ok: boolean;
+
+  /**
+   * The rule the reply broke (only when not ok).
+   */
+  rule?: {
+    id: string;
+    description: string;
+    /**
+     * The normalized text that matched.
+     */
+    matchedText: string;
+  };
+}
 
 /**
  * Result of running a safety check on user input.
@@ -10,58 +164,664 @@ export interface SafetyResult {
   flagged: boolean;
 
   /**
-   * The response text that should be sent to the user when flagged.
-   * This should include a brief, compassionate message plus any configured
-   * disclaimers or crisis guidance.
+   * Severity of the strongest rule matched (only when flagged).
+   */
+  severity?: SafetySeverity;
+
+  /**
+   * The rule behind `severity` (only when flagged).
+   */
+  rule?: SafetyRuleMatch;
+
+  /**
+   * The response text for `severity`: the reply for "check_in" and
+   * "hard_stop", or the text to add to the reply for "resources".
    */
   responseText?: string;
 }
 
+const DEFAULT_NEGATIONS = [
+  "not",
+  "never",
+  "don't",
+  "won't",
+  "wouldn't",
+  "isn't",
+  "aren't",
+  "neither",
+  "nor",
+];
+
+/**
+ * How many words before a match are searched for a negation.
+ */
+const NEGATION_WINDOW = 3;
+
+/**
+ * Words that end the search for a negation: a subject pronoun or
+ * conjunction starts a new clause, which the negation before it does not
+ * govern ("I don't know I want to die"). Normalized, in English and
+ * Spanish.
+ */
+const NEGATION_BOUNDARIES = new Set([
+  "i",
+  "im",
+  "ive",
+  "id",
+  "you",
+  "youre",
+  "he",
+  "she",
+  "we",
+  "they",
+  "it",
+  "and",
+  "but",
+  "or",
+  "so",
+  "because",
+  "cause",
+  "though",
+  "although",
+  "if",
+  "when",
+  "then",
+  "that",
+  "yo",
+  "tu",
+  "ella",
+  "ellos",
+  "ellas",
+  "nosotros",
+  "y",
+  "pero",
+  "porque",
+  "que",
+  "aunque",
+]);
+
+const LEET: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "@": "a",
+  $: "s",
+};
+
 /**
- * Naive, keyword-based safety check for crisis / self-harm language.
+ * Normalize text for safety matching: lowercase, without accents,
+ * zero-width characters or apostrophes, with look-alike digits inside
+ * words turned into letters ("k1ll" → "kill"), spaced-out letters joined
+ * ("k i l l" → "kill") and any other punctuation turned into single
+ * spaces. Letters are only joined across the same separator, so the gap
+ * between two spelled-out words is kept ("k.i.l.l m.y" → "kill my").
+ */
+export function normalizeSafetyText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f\u00ad\u200b-\u200d\u2060\ufeff]/g, "")
+    .toLowerCase()
+    .replace(/(?<=[a-z])[013457@$]|[013457@$](?=[a-z])/g, (c) => LEET[c])
+    .replace(/['’‘`]/g, "")
+    .replace(
+      /(?<![\p{L}\p{N}])[a-z]([^\p{L}\p{N}]+)[a-z](?:\1[a-z])+(?![\p{L}\p{N}])/gu,
+      (run, separator: string) => run.split(separator).join(""),
+    )
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * A pattern for a phrase that tolerates stretched letters and missing
+ * spaces: "kill" matches "kil", "kill" and "kiiilll", and "kill myself"
+ * also matches "killmyself", which is what spelling the whole phrase out
+ * letter by letter normalizes to.
+ */
+function phrasePattern(phrase: string): RegExp | null {
+  const chars = [...normalizeSafetyText(phrase)];
+  if (chars.length === 0) return null;
+
+  let source = "";
+  chars.forEach((char, index) => {
+    if (char === " ") source += " ?";
+    else if (char !== chars[index - 1]) source += `${escapeRegExp(char)}+`;
+  });
+
+  return new RegExp(`(?<![\\p{L}\\p{N}])${source}(?![\\p{L}\\p{N}])`, "gu");
+}
+
+function squeeze(word: string): string {
+  return word.replace(/(.)\1+/g, "$1");
+}
+
+interface CompiledMatcher {
+  negatable: boolean;
+  matchers: RegExp[];
+  exceptions: RegExp[];
+}
+
+interface CompiledRule extends CompiledMatcher {
+  id: string;
+  severity: SafetySeverity;
+  message?: string;
+}
+
+interface CompiledOutputRule extends CompiledMatcher {
+  id: string;
+  description: string;
+}
+
+interface CompiledSafety {
+  rules: CompiledRule[];
+  outputRules: CompiledOutputRule[];
+  negations: Set<string>;
+}
+
+/**
+ * Compile a rule's phrases, patterns and exceptions. Input rules are
+ * negatable unless they are "hard_stop" rules or set `negatable: false`;
+ * output rules unless they set `negatable: false`.
+ */
+function compileMatcher(
+  rule: SafetyMatcherConfig & { severity?: unknown },
+): CompiledMatcher {
+  const patterns = (rule.patterns ?? []).flatMap((pattern) => {
+    try {
+      return [new RegExp(pattern, "gi")];
+    } catch {
+      console.warn(
+        `Ignoring invalid pattern in safety rule "${rule.id}": ${pattern}`,
+      );
+      return [];
+    }
+  });
+
+  return {
+    negatable: rule.negatable ?? rule.severity !== "hard_stop",
+    matchers: [...(rule.phrases ?? []).map(phrasePattern), ...patterns].filter(
+      (matcher): matcher is RegExp => matcher !== null,
+    ),
+    exceptions: (rule.exceptions ?? [])
+      .map(phrasePattern)
+      .filter((matcher): matcher is RegExp => matcher !== null),
+  };
+}
+
+function compileNegations(words: string[]): Set<string> {
+  return new Set(words.map((word) => squeeze(normalizeSafetyText(word))));
+}
+
+const compiledSafety = new WeakMap<object, CompiledSafety>();
+
+/**
+ * Compile the safety rules of a (possibly localized) ritual config. The
+ * "hard_stop" rules and keywords of every translation are included too:
+ * the session's locale says which language the interface is in, not which
+ * language the user writes in.
+ */
+function compileSafety(config: PresenceConfig): CompiledSafety {
+  const cached = compiledSafety.get(config);
+  if (cached) return cached;
+
+  const safety = (config.safety ?? {}) as Partial<SafetyConfig>;
+  const ruleConfigs: SafetyRuleConfig[] = [...(safety.rules ?? [])];
+  const keywords = new Set(safety.keywords ?? []);
+
+  const { locales } = config as {
+    locales?: Record<string, { safety?: Partial<SafetyConfig> } | null>;
+  };
+  for (const translation of Object.values(locales ?? {})) {
+    for (const rule of translation?.safety?.rules ?? []) {
+      if (rule.severity === "hard_stop" && !ruleConfigs.includes(rule)) {
+        ruleConfigs.push(rule);
+      }
+    }
+    for (const keyword of translation?.safety?.keywords ?? []) {
+      keywords.add(keyword);
+    }
+  }
+
+  if (keywords.size > 0) {
+    ruleConfigs.push({
+      id: "keywords",
+      severity: "hard_stop",
+      phrases: [...keywords],
+    });
+  }
+
+  const rules: CompiledRule[] = ruleConfigs.map((rule) => ({
+    id: rule.id,
+    severity: rule.severity,
+    message: rule.message,
+    ...compileMatcher(rule),
+  }));
+
+  // Strongest severity first, keeping config order within a severity
+  rules.sort(
+    (a, b) =>
+      SAFETY_SEVERITIES.indexOf(b.severity) -
+      SAFETY_SEVERITIES.indexOf(a.severity),
+  );
+
+  const compiled = {
+    rules,
+    outputRules: (safety.outputRules ?? []).map((rule) => ({
+      id: rule.id,
+      description: rule.description,
+      ...compileMatcher(rule),
+    })),
+    negations: compileNegations(safety.negations ?? DEFAULT_NEGATIONS),
+  };
+  compiledSafety.set(config, compiled);
+
+  return compiled;
+}
+
+/**
+ * Whether the match at `index` is governed by a negation: one of the
+ * NEGATION_WINDOW words before it, with no subject pronoun or conjunction
+ * in between ("I would never hurt myself", but not "no, I want to die").
+ */
+function isNegated(
+  clause: string,
+  index: number,
+  negations: Set<string>,
+): boolean {
+  const words = clause
+    .slice(0, index)
+    .split(" ")
+    .filter(Boolean)
+    .slice(-NEGATION_WINDOW)
+    .reverse();
+
+  for (const word of words) {
+    if (negations.has(squeeze(word))) return true;
+    if (NEGATION_BOUNDARIES.has(word)) return false;
+  }
+
+  return false;
+}
+
+/**
+ * The first match of `rule` in `clause` that is neither negated nor part
+ * of an exception.
+ */
+function findRuleMatch(
+  rule: CompiledMatcher,
+  clause: string,
+  negations: Set<string>,
+): string | null {
+  for (const matcher of rule.matchers) {
+    for (const match of clause.matchAll(matcher)) {
+      if (!match[0]) continue;
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+
+      const excepted = rule.exceptions.some((exception) =>
+        [...clause.matchAll(exception)].some(
+          (found) =>
+            (found.index ?? 0) < end &&
+            (found.index ?? 0) + found[0].length > start,
+        ),
+      );
+      if (excepted) continue;
+
+      if (rule.negatable && isNegated(clause, start, negations)) continue;
+
+      return match[0];
+    }
+  }
+
+  return null;
+}
+
+function getResponseText(
+  rule: CompiledRule,
+  config: PresenceConfig,
+  locale?: string,
+): string {
+  if (rule.message?.trim()) return rule.message.trim();
+
+  const safety = config.safety as Partial<SafetyConfig>;
+  const messages = getMessages(locale).server;
+
+  switch (rule.severity) {
+    case "check_in":
+      return safety.checkInTemplate?.trim() || messages.safetyCheckIn;
+    case "resources":
+      return safety.resourcesTemplate?.trim() || messages.safetyResources;
+    case "hard_stop": {
+      const crisisTemplate = safety.crisisTemplate?.trim() ?? "";
+      const disclaimer = safety.disclaimer?.trim() ?? "";
+
+      const parts = [crisisTemplate, disclaimer].filter(Boolean);
+      return parts.join("\n\n") || messages.safetyFallback;
+    }
+  }
+}
+
+/**
+ * Normalized clauses of a message, so a negation or exception in one
+ * clause does not affect the next.
+ */
+function splitIntoClauses(text: string): string[] {
+  return text
+    .split(/[.!?;,]+(?=\s|$)|\n+/)
+    .map(normalizeSafetyText)
+    .filter(Boolean);
+}
+
+/**
+ * Length of the start of a reply that is still arriving which more text
+ * cannot change the checks of: everything up to its last clause break
+ * followed by whitespace. Rules only match within a clause (see
+ * `splitIntoClauses`), so that part can be checked and shown while the
+ * rest is still being written.
+ */
+export function getSettledLength(text: string): number {
+  let settled = 0;
+  for (const match of text.matchAll(/[.!?;,]+\s+|\n+/g)) {
+    settled = (match.index ?? 0) + match[0].length;
+  }
+  return settled;
+}
+
+/**
+ * Rule-based safety check for crisis / self-harm language.
  *
- * This is an MVP implementation and should be treated as a safety net,
- * not a full clinical or production-grade solution.
+ * This is a safety net, not a clinical or production-grade classifier.
  *
  * Behavior:
- * - Converts the input to lowercase.
- * - Checks for any configured crisis keywords as simple substring matches.
- * - If any are found, returns `flagged: true` and a standard crisis response
- *   based on the configuration file.
- * - Otherwise returns `flagged: false`.
+ * - Splits the input into clauses and normalizes each one (see
+ *   `normalizeSafetyText`), so obfuscated spellings such as "k1ll" or
+ *   "s.u.i.c.i.d.e" still match.
+ * - Checks the `safety.rules` configured for the session's ritual (plus
+ *   the legacy `safety.keywords`, as a "hard_stop" rule), strongest
+ *   severity first. A config localized with `localizeConfig` includes the
+ *   rules of the session's language as well as the default ones, and the
+ *   "hard_stop" rules of every language are always checked.
+ * - Ignores matches inside one of the rule's exceptions ("kill myself
+ *   laughing") and, except for "hard_stop" rules, matches governed by a
+ *   negation ("I'm not hopeless").
+ * - Returns the severity and rule of the strongest match with its
+ *   response text, or `flagged: false`.
+ */
+export function checkForSafetyFlags(
+  text: string,
+  config: PresenceConfig,
+  locale?: string,
+): SafetyResult {
+  const { rules, negations } = compileSafety(config);
+
+  const clauses = splitIntoClauses(text);
+
+  for (const rule of rules) {
+    for (const clause of clauses) {
+      const matchedText = findRuleMatch(rule, clause, negations);
+      if (matchedText === null) continue;
+
+      return {
+        flagged: true,
+        severity: rule.severity,
+        rule: { id: rule.id, severity: rule.severity, matchedText },
+        responseText: getResponseText(rule, config, locale),
+      };
+    }
+  }
+
+  return { flagged: false };
+}
+
+/**
+ * Check a reply from the model against the ritual's `safety.outputRules`,
+ * which encode the `brandVoice.guidelines.dont` list: no diagnoses,
+ * promised outcomes, medical advice and so on. Replies are normalized and
+ * matched like user messages (see `checkForSafetyFlags`).
  *
- * You can later extend this to:
- * - Use more sophisticated pattern matching or ML-based classifiers.
- * - Add severity levels (e.g., warning vs. hard-stop).
- * - Log flagged events for internal review (with appropriate privacy
- *   and compliance considerations).
+ * Returns the first rule the reply breaks, or `ok: true`.
  */
-export function checkForSafetyFlags(text: string): SafetyResult {
-  const config = getPresenceConfig();
-  const lowered = text.toLowerCase();
+export function checkOutputSafety(
+  text: string,
+  config: PresenceConfig,
+): OutputSafetyResult {
+  const { outputRules, negations } = compileSafety(config);
+  if (outputRules.length === 0) return { ok: true };
+
+  const clauses = splitIntoClauses(text);
 
-  const keywords = config.safety?.keywords ?? [];
+  for (const rule of outputRules) {
+    for (const clause of clauses) {
+      const matchedText = findRuleMatch(rule, clause, negations);
+      if (matchedText === null) continue;
 
-  const matchedKeyword = keywords.find((kw) =>
-    lowered.includes(kw.toLowerCase())
+      return {
+        ok: false,
+        rule: { id: rule.id, description: rule.description, matchedText },
+      };
+    }
+  }
+
+  return { ok: true };
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
   );
+}
+
+/**
+ * Check a `safety` section (or a translation's, with `path`
+ * "locales.<tag>.safety") before it is saved. Returns a description of the
+ * first problem, or null.
+ */
+export function validateSafetyConfig(
+  value: unknown,
+  path = "safety",
+  inheritedNegations: string[] = [],
+): string | null {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return `"${path}" must be an object.`;
+  }
 
-  if (matchedKeyword) {
-    const crisisTemplate = config.safety?.crisisTemplate?.trim() ?? "";
-    const disclaimer = config.safety?.disclaimer?.trim() ?? "";
+  const safety = value as Record<string, unknown>;
 
-    const parts = [crisisTemplate, disclaimer].filter(Boolean);
-    const response = parts.join("\n\n");
+  for (const key of ["checkInTemplate", "resourcesTemplate"]) {
+    if (safety[key] !== undefined && typeof safety[key] !== "string") {
+      return `"${path}.${key}" must be a string.`;
+    }
+  }
 
-    return {
-      flagged: true,
-      responseText:
-        response ||
-        "It sounds like you might be going through something very intense. I’m not able to help with crises or safety concerns. If you’re in immediate danger, please contact your local emergency number or a crisis line right away."
-    };
+  for (const key of ["keywords", "negations"]) {
+    if (safety[key] !== undefined && !isStringArray(safety[key])) {
+      return `"${path}.${key}" must be an array of strings.`;
+    }
   }
 
-  return { flagged: false };
+  const negations = compileNegations([
+    ...inheritedNegations,
+    ...((safety.negations as string[] | undefined) ?? DEFAULT_NEGATIONS),
+  ]);
+
+  return (
+    validateRuleList(safety.rules, `${path}.rules`, "input", negations) ??
+    validateRuleList(
+      safety.outputRules,
+      `${path}.outputRules`,
+      "output",
+      negations,
+    )
+  );
+}
+
+/**
+ * Check a list of input (`rules`) or output (`outputRules`) safety rules.
+ */
+function validateRuleList(
+  value: unknown,
+  path: string,
+  kind: "input" | "output",
+  negations: Set<string>,
+): string | null {
+  if (value === undefined) return null;
+  if (!Array.isArray(value)) return `"${path}" must be an array.`;
+
+  const ids = new Set<string>();
+
+  for (const [index, item] of value.entries()) {
+    const key = `${path}[${index}]`;
+
+    if (typeof item !== "object" || item === null || Array.isArray(item)) {
+      return `"${key}" must be an object.`;
+    }
+
+    const rule = item as Record<string, unknown>;
+
+    if (typeof rule.id !== "string" || !rule.id) {
+      return `"${key}.id" must be a non-empty string.`;
+    }
+    if (ids.has(rule.id)) {
+      return `"${key}.id" repeats the id "${rule.id}".`;
+    }
+    ids.add(rule.id);
+
+    if (
+      kind === "input" &&
+      !SAFETY_SEVERITIES.includes(rule.severity as SafetySeverity)
+    ) {
+      return `"${key}.severity" must be one of ${SAFETY_SEVERITIES.join(", ")}.`;
+    }
+    if (
+      kind === "output" &&
+      (typeof rule.description !== "string" || !rule.description.trim())
+    ) {
+      return `"${key}.description" must be a non-empty string.`;
+    }
+
+    for (const field of ["phrases", "patterns", "exceptions"]) {
+      if (rule[field] !== undefined && !isStringArray(rule[field])) {
+        return `"${key}.${field}" must be an array of strings.`;
+      }
+    }
+
+    const phrases = (rule.phrases as string[] | undefined) ?? [];
+    const patterns = (rule.patterns as string[] | undefined) ?? [];
+    if (phrases.length === 0 && patterns.length === 0) {
+      return `"${key}" needs at least one of "phrases" or "patterns".`;
+    }
+
+    for (const pattern of patterns) {
+      try {
+        new RegExp(pattern, "gi");
+      } catch {
+        return `"${key}.patterns" has an invalid regular expression: ${pattern}`;
+      }
+    }
+
+    if (rule.negatable !== undefined && typeof rule.negatable !== "boolean") {
+      return `"${key}.negatable" must be true or false.`;
+    }
+    if (rule.message !== undefined && typeof rule.message !== "string") {
+      return `"${key}.message" must be a string.`;
+    }
+
+    const examplesError = validateRuleExamples(
+      rule as unknown as SafetyRuleConfig,
+      `${key}.examples`,
+      negations,
+    );
+    if (examplesError) return examplesError;
+  }
+
+  return null;
+}
+
+/**
+ * Check a rule's `examples`: each `flagged` message must match the rule
+ * and no `ignored` message may.
+ */
+function validateRuleExamples(
+  rule: SafetyRuleConfig,
+  path: string,
+  negations: Set<string>,
+): string | null {
+  const { examples } = rule;
+  if (examples === undefined) return null;
+
+  if (
+    typeof examples !== "object" ||
+    examples === null ||
+    Array.isArray(examples)
+  ) {
+    return `"${path}" must be an object.`;
+  }
+
+  for (const field of ["flagged", "ignored"] as const) {
+    if (examples[field] !== undefined && !isStringArray(examples[field])) {
+      return `"${path}.${field}" must be an array of strings.`;
+    }
+  }
+
+  const matcher = compileMatcher(rule);
+  const matches = (text: string) =>
+    splitIntoClauses(text).some(
+      (clause) => findRuleMatch(matcher, clause, negations) !== null,
+    );
+
+  const missed = (examples.flagged ?? []).find((text) => !matches(text));
+  if (missed !== undefined) {
+    return `"${path}.flagged" has a message the rule does not match: ${JSON.stringify(missed)}`;
+  }
+
+  const caught = (examples.ignored ?? []).find(matches);
+  if (caught !== undefined) {
+    return `"${path}.ignored" has a message the rule matches: ${JSON.stringify(caught)}`;
+  }
+
+  return null;
+}
+
+/**
+ * Check the `safety` section of a ritual config, and of each of its
+ * translations, before it is saved. Returns a description of the first
+ * problem, or null.
+ */
+export function validateSafetyRules(config: {
+  safety?: unknown;
+  locales?: unknown;
+}): string | null {
+  const error = validateSafetyConfig(config.safety);
+  if (error) return error;
+
+  if (typeof config.locales !== "object" || config.locales === null) {
+    return null;
+  }
+
+  // Translations are checked with the default negations too, as they are
+  // when the config is localized
+  const { negations } = config.safety as Partial<SafetyConfig>;
+
+  for (const [tag, translation] of Object.entries(config.locales)) {
+    const safety = (translation as { safety?: unknown } | null)?.safety;
+    const translationError =
+      safety === undefined
+        ? null
+        : validateSafetyConfig(
+            safety,
+            `locales.${tag}.safety`,
+            negations ?? DEFAULT_NEGATIONS,
+          );
+    if (translationError) return translationError;
+  }
+
+  return null;
 }
 
 /**
@@ -72,8 +832,10 @@ export function checkForSafetyFlags(text: string): SafetyResult {
  * boundaries in non-crisis situations (e.g., at the start or end
  * of a session).
  */
-export function withSafetyDisclaimer(message: string): string {
-  const config = getPresenceConfig();
+export function withSafetyDisclaimer(
+  message: string,
+  config: PresenceConfig,
+): string {
   const disclaimer = config.safety?.disclaimer?.trim();
 
   if (!disclaimer) {
@@ -0,0 +1,373 @@
+import { prisma } from "./configStore";
+import { getDefaultRitualSlug } from "./config";
+import { normalizeSafetyText, type SafetySeverity } from "./safety";
+import type { PresenceStep, SessionState } from "./types";
+
+/**
+ * Log of safety events for review.
+ *
+ * Every user message that matches a safety rule, and every model reply
+ * that breaks an output rule, is stored as a `SafetyEvent` row with the
+ * text the rule matched and a redacted excerpt around it. Admins review, annotate and resolve events
+ * in the admin panel, and export them for clinical review. Events are only
+ * stored when DATABASE_URL is set; otherwise they are written to the
+ * server log without the excerpt.
+ */
+
+/**
+ * Whether the event came from a user message (`rules`) or a model reply
+ * (`outputRules`).
+ */
+export type SafetyEventSource = "input" | "output";
+
+export type SafetyEventStatus = "open" | "reviewed" | "resolved";
+
+export const SAFETY_EVENT_STATUSES: SafetyEventStatus[] = [
+  "open",
+  "reviewed",
+  "resolved",
+];
+
+export interface SafetyEvent {
+  id: string;
+  sessionId: string;
+  ritualSlug: string;
+  configVersionId: string | null;
+  source: SafetyEventSource;
+  ruleId: string;
+  /**
+   * Severity of the input rule matched; null for output events.
+   */
+  severity: SafetySeverity | null;
+  step: PresenceStep;
+  /**
+   * The normalized text the rule matched (see `SafetyRuleMatch`); null
+   * for events recorded before it was stored.
+   */
+  matchedText: string | null;
+  excerpt: string;
+  status: SafetyEventStatus;
+  reviewNote: string | null;
+  reviewedBy: string | null;
+  resolvedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Longest excerpt kept, in characters.
+ */
+const MAX_EXCERPT_LENGTH = 280;
+
+/**
+ * Characters of context kept before the matched text when an excerpt has
+ * to be cut.
+ */
+const EXCERPT_LEAD = 100;
+
+/**
+ * Longest matched text kept, in characters.
+ */
+const MAX_MATCHED_TEXT_LENGTH = 200;
+
+/**
+ * Largest page returned by `listSafetyEvents`.
+ */
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Where in `text` the normalized `matchedText` starts: the first word
+ * start whose normalized text begins with it, or -1.
+ */
+function findMatchIndex(text: string, matchedText: string): number {
+  // Obfuscated spellings ("k . i . l . l") are longer than their
+  // normalized form
+  const span = matchedText.length * 4 + 16;
+
+  for (const word of text.matchAll(/(?<![\p{L}\p{N}])[\p{L}\p{N}]/gu)) {
+    const index = word.index ?? 0;
+    const candidate = normalizeSafetyText(text.slice(index, index + span));
+    if (candidate.startsWith(matchedText)) return index;
+  }
+
+  return -1;
+}
+
+/**
+ * Replace contact details and identifiers in user text: email addresses,
+ * URLs, @handles and phone or other long numbers. The result is collapsed
+ * to one line and cut to MAX_EXCERPT_LENGTH characters around
+ * `matchedText` (the normalized text a rule matched), or from the start
+ * when it is not given or cannot be found.
+ */
+export function redactExcerpt(text: string, matchedText?: string): string {
+  const redacted = text
+    .replace(/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, "[email]")
+    .replace(/\b(?:https?:\/\/|www\.)\S+/gi, "[link]")
+    .replace(/(?<![\w@])@\w{2,}/g, "[handle]")
+    .replace(/\+?\d[\d\s().-]{5,}\d/g, "[number]")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (redacted.length <= MAX_EXCERPT_LENGTH) return redacted;
+
+  const matchIndex = matchedText ? findMatchIndex(redacted, matchedText) : -1;
+  const start = Math.max(
+    0,
+    Math.min(matchIndex - EXCERPT_LEAD, redacted.length - MAX_EXCERPT_LENGTH),
+  );
+  const end = start + MAX_EXCERPT_LENGTH;
+
+  let excerpt = redacted.slice(start, end);
+  if (start > 0) excerpt = `…${excerpt.slice(1).trimStart()}`;
+  if (end < redacted.length) excerpt = `${excerpt.slice(0, -1).trimEnd()}…`;
+
+  return excerpt;
+}
+
+/**
+ * Whether safety events are stored in the database (DATABASE_URL is set).
+ */
+export function isSafetyLogEnabled(): boolean {
+  return Boolean(process.env.DATABASE_URL);
+}
+
+/**
+ * Store a safety event for a session. Never throws; storage failures are
+ * logged, since the chat must answer the user regardless.
+ */
+export async function recordSafetyEvent({
+  session,
+  source,
+  ruleId,
+  severity = null,
+  step,
+  matchedText,
+  text,
+}: {
+  session: SessionState;
+  source: SafetyEventSource;
+  ruleId: string;
+  severity?: SafetySeverity | null;
+  step: PresenceStep;
+  /**
+   * The normalized text the rule matched.
+   */
+  matchedText: string;
+  /**
+   * The user message or model reply; only a redacted excerpt around
+   * `matchedText` is stored.
+   */
+  text: string;
+}): Promise<void> {
+  const event = {
+    sessionId: session.sessionId,
+    ritualSlug: session.ritualSlug ?? getDefaultRitualSlug(),
+    configVersionId: session.configVersionId ?? null,
+    source,
+    ruleId,
+    severity,
+    step,
+  };
+
+  if (!isSafetyLogEnabled()) {
+    console.warn(`[safety] ${JSON.stringify(event)}`);
+    return;
+  }
+
+  try {
+    await prisma.safetyEvent.create({
+      data: {
+        ...event,
+        matchedText: matchedText.slice(0, MAX_MATCHED_TEXT_LENGTH),
+        excerpt: redactExcerpt(text, matchedText),
+      },
+    });
+  } catch (err) {
+    console.error(
+      `Failed to record safety event ${JSON.stringify(event)}:`,
+      err,
+    );
+  }
+}
+
+/**
+ * Filters for listing and exporting safety events.
+ */
+export interface SafetyEventFilter {
+  status?: SafetyEventStatus;
+  ritualSlug?: string;
+  /**
+   * Only events created at or after this time.
+   */
+  from?: Date;
+  /**
+   * Only events created before this time.
+   */
+  to?: Date;
+}
+
+function toWhere({ status, ritualSlug, from, to }: SafetyEventFilter) {
+  return {
+    ...(status ? { status } : {}),
+    ...(ritualSlug ? { ritualSlug } : {}),
+    ...(from || to
+      ? {
+          createdAt: {
+            ...(from ? { gte: from } : {}),
+            ...(to ? { lt: to } : {}),
+          },
+        }
+      : {}),
+  };
+}
+
+/**
+ * Read a `SafetyEventFilter` from query parameters (`status`,
+ * `ritualSlug`, and ISO dates `from` and `to`). Returns a description of
+ * the first invalid parameter instead, if any.
+ */
+export function parseSafetyEventFilter(
+  params: URLSearchParams,
+): { filter: SafetyEventFilter } | { error: string } {
+  const filter: SafetyEventFilter = {};
+
+  const status = params.get("status");
+  if (status) {
+    if (!SAFETY_EVENT_STATUSES.includes(status as SafetyEventStatus)) {
+      return {
+        error: `'status' must be one of ${SAFETY_EVENT_STATUSES.join(", ")}.`,
+      };
+    }
+    filter.status = status as SafetyEventStatus;
+  }
+
+  const ritualSlug = params.get("ritualSlug");
+  if (ritualSlug) filter.ritualSlug = ritualSlug;
+
+  for (const key of ["from", "to"] as const) {
+    const value = params.get(key);
+    if (!value) continue;
+
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      return { error: `'${key}' must be an ISO date.` };
+    }
+    filter[key] = date;
+  }
+
+  return { filter };
+}
+
+/**
+ * A page of safety events, newest first. Pass the returned `nextCursor`
+ * as `cursor` to get the next page; it is null on the last page.
+ */
+export async function listSafetyEvents(
+  filter: SafetyEventFilter,
+  { limit = 25, cursor }: { limit?: number; cursor?: string } = {},
+): Promise<{ events: SafetyEvent[]; nextCursor: string | null }> {
+  const take = Math.min(Math.max(1, Math.floor(limit)), MAX_PAGE_SIZE);
+
+  const rows = await prisma.safetyEvent.findMany({
+    where: toWhere(filter),
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: take + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  });
+
+  return {
+    events: rows.slice(0, take) as SafetyEvent[],
+    nextCursor: rows.length > take ? rows[take - 1].id : null,
+  };
+}
+
+/**
+ * Every safety event matching `filter`, oldest first, for export.
+ */
+export async function exportSafetyEvents(
+  filter: SafetyEventFilter,
+): Promise<SafetyEvent[]> {
+  const rows = await prisma.safetyEvent.findMany({
+    where: toWhere(filter),
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  });
+
+  return rows as SafetyEvent[];
+}
+
+/**
+ * Record a review of a safety event: a new status, a note, or both.
+ * Resolving an event stamps `resolvedAt`; reopening clears it. Returns
+ * null if the event does not exist.
+ */
+export async function reviewSafetyEvent(
+  id: string,
+  review: {
+    status?: SafetyEventStatus;
+    reviewNote?: string | null;
+    reviewedBy?: string | null;
+  },
+): Promise<SafetyEvent | null> {
+  const existing = await prisma.safetyEvent.findUnique({ where: { id } });
+  if (!existing) return null;
+
+  const updated = await prisma.safetyEvent.update({
+    where: { id },
+    data: {
+      ...(review.status
+        ? {
+            status: review.status,
+            resolvedAt:
+              review.status === "resolved"
+                ? (existing.resolvedAt ?? new Date())
+                : null,
+          }
+        : {}),
+      ...(review.reviewNote !== undefined
+        ? { reviewNote: review.reviewNote }
+        : {}),
+      ...(review.reviewedBy !== undefined
+        ? { reviewedBy: review.reviewedBy }
+        : {}),
+    },
+  });
+
+  return updated as SafetyEvent;
+}
+
+const CSV_COLUMNS: (keyof SafetyEvent)[] = [
+  "id",
+  "createdAt",
+  "ritualSlug",
+  "configVersionId",
+  "sessionId",
+  "step",
+  "source",
+  "ruleId",
+  "severity",
+  "matchedText",
+  "excerpt",
+  "status",
+  "reviewNote",
+  "reviewedBy",
+  "resolvedAt",
+];
+
+function csvCell(value: unknown): string {
+  const raw =
+    value instanceof Date ? value.toISOString() : String(value ?? "");
+  // Keep spreadsheets from running user text as a formula
+  const text = /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Safety events as CSV, one row per event with a header row.
+ */
+export function toSafetyEventsCsv(events: SafetyEvent[]): string {
+  const rows = events.map((event) =>
+    CSV_COLUMNS.map((column) => csvCell(event[column])).join(","),
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
@@ -0,0 +1,132 @@
+import {
+  PresenceStep,
+  SessionNotes,
+  SessionState,
+  TurnResult,
+} from "./types";
+import type { PresenceConfig } from "./config";
+import type { StepConfig } from "./configStore";
+import { getNextStep, getStepNoteKey } from "./stepMachine";
+import { getMessages } from "./messages";
+
+/**
+ * Deterministic, LLM-free engine for the Presence Shift ritual.
+ *
+ * Used when no LLM provider is configured (e.g., OPENAI_API_KEY is
+ * missing), when SCRIPTED_MODE is enabled for demos or air-gapped
+ * environments, and when the provider fails mid-session. Each user
+ * message moves the ritual to the current step's default next step (see
+ * `getNextStep`), replying with one of the current step's `presenceNotes`
+ * followed by one of the next step's `miniPrompts`. Pass a config localized
+ * to the session's language (see `localizeConfig`).
+ */
+
+/**
+ * Maximum length of a user message stored verbatim as a step note.
+ */
+const MAX_NOTE_LENGTH = 200;
+
+/**
+ * Whether scripted mode has been forced on via the SCRIPTED_MODE
+ * environment variable.
+ */
+export function isScriptedModeEnabled(): boolean {
+  const value = process.env.SCRIPTED_MODE?.toLowerCase();
+  return value === "1" || value === "true";
+}
+
+/**
+ * Stable, non-cryptographic hash so a session always picks the same
+ * variant of a note or prompt.
+ */
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+function pick(
+  options: string[] | undefined,
+  seed: number,
+): string | undefined {
+  if (!options || options.length === 0) return undefined;
+  return options[seed % options.length];
+}
+
+/**
+ * The line that opens `step` when a session enters it without a turn
+ * (e.g. when the user skips ahead): one of the step's `miniPrompts`, or
+ * its description.
+ */
+export function getStepOpening({
+  session,
+  step,
+  config,
+}: {
+  session: SessionState;
+  step: PresenceStep;
+  config: PresenceConfig;
+}): string {
+  const stepConfig = (config.steps as Record<string, StepConfig>)[step];
+
+  return (
+    pick(stepConfig?.miniPrompts, hashString(session.sessionId)) ??
+    stepConfig?.description ??
+    ""
+  );
+}
+
+/**
+ * Produce the next turn of the ritual without calling an LLM.
+ */
+export function buildScriptedTurn({
+  session,
+  userMessage,
+  config,
+}: {
+  session: SessionState;
+  userMessage: string;
+  config: PresenceConfig;
+}): TurnResult {
+  const stepsConfig = config.steps as Record<string, StepConfig>;
+  const { scriptedNote, scriptedClosing } = getMessages(session.locale).server;
+
+  const step = session.currentStep;
+
+  if (step === "DONE") {
+    return {
+      assistantMessage: scriptedClosing,
+      nextStep: "DONE",
+    };
+  }
+
+  const seed = hashString(session.sessionId);
+  const nextStep = getNextStep(step, config);
+
+  const notesUpdate: Partial<SessionNotes> = {
+    [getStepNoteKey(step)]: userMessage.trim().slice(0, MAX_NOTE_LENGTH),
+  };
+
+  const note = pick(stepsConfig[step]?.presenceNotes, seed) ?? scriptedNote;
+
+  if (nextStep === "DONE") {
+    return {
+      assistantMessage:
+        note === scriptedNote ? `${note} ${scriptedClosing}` : note,
+      nextStep,
+      notesUpdate,
+    };
+  }
+
+  const nextConfig = stepsConfig[nextStep];
+  const prompt =
+    pick(nextConfig?.miniPrompts, seed) ?? nextConfig?.description ?? "";
+
+  return {
+    assistantMessage: [note, prompt].filter(Boolean).join(" "),
+    nextStep,
+    notesUpdate,
+  };
+}
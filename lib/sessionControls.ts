@@ -0,0 +1,149 @@
+import { SessionState } from "./types";
+import type { PresenceConfig } from "./config";
+import { DONE_STEP, getFirstStep, getNextStep } from "./stepMachine";
+import { getStepOpening } from "./scriptedEngine";
+import { appendToTranscript } from "./transcript";
+import { getMessages } from "./messages";
+
+/**
+ * In-ritual controls a user can apply to their session besides sending a
+ * message:
+ * - `restart`: start the ritual over from its first step, clearing the
+ *   conversation, notes and turn counts (the session keeps its ID, ritual
+ *   and pinned config version).
+ * - `skip`: move to the current step's default next step (see
+ *   `getNextStep`), opening it with one of its `miniPrompts`.
+ * - `pause` / `resume`: while paused, `POST /api/chat` refuses messages.
+ * - `end`: end the ritual early; the end-of-shift summary is still
+ *   available.
+ */
+export type SessionAction = "restart" | "skip" | "pause" | "resume" | "end";
+
+export const SESSION_ACTIONS: SessionAction[] = [
+  "restart",
+  "skip",
+  "pause",
+  "resume",
+  "end",
+];
+
+/**
+ * Why an action could not be applied: the session is paused (only
+ * `resume`, `restart` and `end` are allowed) or has already ended (only
+ * `restart` is allowed).
+ */
+export type SessionActionRefusal = "paused" | "ended";
+
+export type SessionActionResult =
+  | {
+      ok: true;
+      /**
+       * Message added to the transcript by the action, if any.
+       */
+      assistantMessage?: string;
+    }
+  | { ok: false; code: SessionActionRefusal; error: string };
+
+export function isSessionAction(value: unknown): value is SessionAction {
+  return SESSION_ACTIONS.includes(value as SessionAction);
+}
+
+function refuse(code: SessionActionRefusal): SessionActionResult {
+  return {
+    ok: false,
+    code,
+    error:
+      code === "paused"
+        ? "This Presence Shift is paused. Resume it to continue."
+        : "This Presence Shift has already ended.",
+  };
+}
+
+/**
+ * Apply a control action to a session in place. The caller persists the
+ * session.
+ */
+export function applySessionAction({
+  session,
+  action,
+  config,
+}: {
+  session: SessionState;
+  action: SessionAction;
+  config: PresenceConfig;
+}): SessionActionResult {
+  const ended = session.currentStep === DONE_STEP;
+  const endedEarlyMessage = getMessages(session.locale).server.endedEarly;
+  const now = new Date().toISOString();
+
+  if (action === "restart") {
+    session.currentStep = getFirstStep(config);
+    session.notes = {};
+    session.stepTurns = {};
+    session.transcript = [];
+    session.userFeelingRaw = undefined;
+    session.userFeelingSummary = undefined;
+    session.nextActivityRaw = undefined;
+    session.nextActivitySummary = undefined;
+    session.endReason = undefined;
+    session.pausedAt = undefined;
+    session.updatedAt = now;
+    return { ok: true };
+  }
+
+  if (ended) {
+    return refuse("ended");
+  }
+
+  switch (action) {
+    case "pause":
+      session.pausedAt = session.pausedAt ?? now;
+      session.updatedAt = now;
+      return { ok: true };
+
+    case "resume":
+      session.pausedAt = undefined;
+      session.updatedAt = now;
+      return { ok: true };
+
+    case "skip": {
+      if (session.pausedAt) {
+        return refuse("paused");
+      }
+
+      const nextStep = getNextStep(session.currentStep, config);
+      const assistantMessage =
+        nextStep === DONE_STEP
+          ? endedEarlyMessage
+          : getStepOpening({ session, step: nextStep, config });
+
+      appendToTranscript(session, {
+        role: "assistant",
+        text: assistantMessage,
+        step: nextStep,
+      });
+
+      session.currentStep = nextStep;
+      if (nextStep === DONE_STEP) {
+        session.endReason = "skipped";
+      }
+      session.updatedAt = now;
+
+      return { ok: true, assistantMessage };
+    }
+
+    case "end":
+      appendToTranscript(session, {
+        role: "assistant",
+        text: endedEarlyMessage,
+        step: DONE_STEP,
+      });
+
+      session.currentStep = DONE_STEP;
+      session.endReason = "user_ended";
+      session.pausedAt = undefined;
+      session.updatedAt = now;
+
+      return { ok: true, assistantMessage: endedEarlyMessage };
+  }
+}
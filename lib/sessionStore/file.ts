@@ -0,0 +1,120 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import type { SessionState } from "../types";
+import type { SessionStore, SessionStoreOptions } from "./types";
+
+interface FileEntry {
+  session: SessionState;
+  expiresAt: number;
+}
+
+/**
+ * Sessions by id. A `Map` rather than a plain object, since ids come from
+ * clients and "__proto__" or "constructor" must not reach the prototype.
+ */
+type FileContents = Map<string, FileEntry>;
+
+/**
+ * Create a session store that keeps all sessions in a single JSON file.
+ *
+ * Notes:
+ * - Intended for single-instance deployments without a database (kiosks,
+ *   demos, air-gapped machines). Do not point several servers at the
+ *   same file.
+ * - Operations are serialized within the process, and each write goes to
+ *   a temporary file that is then renamed over the original so a crash
+ *   never leaves a half-written file behind.
+ * - Expired sessions are dropped whenever the file is rewritten.
+ */
+export function createFileSessionStore(
+  options: SessionStoreOptions & { filePath: string },
+): SessionStore {
+  const filePath = path.resolve(options.filePath);
+  let queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Run `task` after all previously queued operations have finished.
+   */
+  function enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = queue.then(task, task);
+    queue = run.catch(() => undefined);
+    return run;
+  }
+
+  async function readAll(): Promise<FileContents> {
+    try {
+      const raw = await fs.readFile(filePath, "utf8");
+      if (!raw.trim()) return new Map();
+      return new Map(
+        Object.entries(JSON.parse(raw) as Record<string, FileEntry>),
+      );
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return new Map();
+      }
+      throw err;
+    }
+  }
+
+  async function writeAll(contents: FileContents): Promise<void> {
+    const now = Date.now();
+    for (const [id, entry] of contents) {
+      if (entry.expiresAt <= now) {
+        contents.delete(id);
+      }
+    }
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(
+      tmpPath,
+      JSON.stringify(Object.fromEntries(contents)),
+      "utf8",
+    );
+    await fs.rename(tmpPath, filePath);
+  }
+
+  return {
+    name: "file",
+
+    get(sessionId) {
+      return enqueue(async () => {
+        const contents = await readAll();
+        const entry = contents.get(sessionId);
+        if (!entry || entry.expiresAt <= Date.now()) {
+          return null;
+        }
+        return entry.session;
+      });
+    },
+
+    save(session) {
+      return enqueue(async () => {
+        const contents = await readAll();
+        contents.set(session.sessionId, {
+          session,
+          expiresAt: Date.now() + options.ttlMs,
+        });
+        await writeAll(contents);
+      });
+    },
+
+    delete(sessionId) {
+      return enqueue(async () => {
+        const contents = await readAll();
+        if (!contents.delete(sessionId)) return;
+        await writeAll(contents);
+      });
+    },
+
+    purgeExpired() {
+      return enqueue(async () => {
+        const contents = await readAll();
+        const before = contents.size;
+        await writeAll(contents);
+        return before - contents.size;
+      });
+    },
+  };
+}
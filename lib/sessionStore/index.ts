@@ -0,0 +1,137 @@
+import { SessionState } from "../types";
+import { createFileSessionStore } from "./file";
+import { createMemorySessionStore } from "./memory";
+import { createPrismaSessionStore } from "./prisma";
+import { createRedisSessionStore } from "./redis";
+import type { SessionStore, SessionStoreName } from "./types";
+
+export type { SessionStore, SessionStoreName } from "./types";
+
+const STORE_NAMES: SessionStoreName[] = ["prisma", "memory", "file", "redis"];
+
+const DEFAULT_SESSION_TTL_MINUTES = 24 * 60;
+const DEFAULT_MEMORY_MAX_ENTRIES = 1000;
+const DEFAULT_FILE_PATH = ".data/sessions.json";
+const DEFAULT_REDIS_URL = "redis://localhost:6379";
+const DEFAULT_REDIS_KEY_PREFIX = "presence-shift:session:";
+
+/**
+ * Client-chosen session ids are used as storage keys, so keep them short.
+ */
+const MAX_SESSION_ID_LENGTH = 128;
+
+let store: SessionStore | null = null;
+
+function parsePositive(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+/**
+ * Create the session store selected by environment variables.
+ *
+ * - SESSION_STORE: prisma | memory | file | redis
+ *   (default: prisma when DATABASE_URL is set, otherwise memory)
+ * - SESSION_TTL_MINUTES: inactivity TTL for all stores (default: 1440)
+ * - SESSION_STORE_MAX_ENTRIES: LRU capacity of the memory store (default: 1000)
+ * - SESSION_STORE_FILE: path of the file store (default: .data/sessions.json)
+ * - REDIS_URL: Redis-protocol server URL (default: redis://localhost:6379)
+ * - REDIS_KEY_PREFIX: key prefix for sessions (default: presence-shift:session:)
+ */
+function createSessionStore(): SessionStore {
+  const name = (process.env.SESSION_STORE ||
+    (process.env.DATABASE_URL ? "prisma" : "memory")) as SessionStoreName;
+
+  if (!STORE_NAMES.includes(name)) {
+    throw new Error(
+      `Unknown session store "${name}". Expected one of: ${STORE_NAMES.join(", ")}.`,
+    );
+  }
+
+  const ttlMinutes = parsePositive(
+    process.env.SESSION_TTL_MINUTES,
+    DEFAULT_SESSION_TTL_MINUTES,
+  );
+  const ttlMs = ttlMinutes * 60 * 1000;
+
+  switch (name) {
+    case "prisma":
+      return createPrismaSessionStore({ ttlMs });
+
+    case "memory":
+      return createMemorySessionStore({
+        ttlMs,
+        maxEntries: parsePositive(
+          process.env.SESSION_STORE_MAX_ENTRIES,
+          DEFAULT_MEMORY_MAX_ENTRIES,
+        ),
+      });
+
+    case "file":
+      return createFileSessionStore({
+        ttlMs,
+        filePath: process.env.SESSION_STORE_FILE || DEFAULT_FILE_PATH,
+      });
+
+    case "redis":
+      return createRedisSessionStore({
+        ttlMs,
+        url: process.env.REDIS_URL || DEFAULT_REDIS_URL,
+        keyPrefix: process.env.REDIS_KEY_PREFIX || DEFAULT_REDIS_KEY_PREFIX,
+      });
+  }
+}
+
+/**
+ * Get the process-wide session store, creating it on first use.
+ */
+export function getSessionStore(): SessionStore {
+  if (!store) {
+    store = createSessionStore();
+  }
+  return store;
+}
+
+/**
+ * Check a client-sent sessionId before it is used as a storage key: a
+ * non-empty string of at most `MAX_SESSION_ID_LENGTH` characters.
+ */
+export function isValidSessionId(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    value.length > 0 &&
+    value.length <= MAX_SESSION_ID_LENGTH
+  );
+}
+
+/**
+ * Retrieve an existing session by its sessionId.
+ */
+export async function getSessionState(
+  sessionId: string,
+): Promise<SessionState | null> {
+  return getSessionStore().get(sessionId);
+}
+
+/**
+ * Create or update a session.
+ */
+export async function saveSessionState(session: SessionState): Promise<void> {
+  await getSessionStore().save(session);
+}
+
+/**
+ * Delete a session when it is no longer needed.
+ */
+export async function deleteSessionState(sessionId: string): Promise<void> {
+  await getSessionStore().delete(sessionId);
+}
+
+/**
+ * Remove expired sessions from stores that do not expire them on their
+ * own. Returns the number of sessions removed.
+ */
+export async function purgeExpiredSessions(): Promise<number> {
+  const current = getSessionStore();
+  return current.purgeExpired ? current.purgeExpired() : 0;
+}
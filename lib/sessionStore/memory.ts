@@ -0,0 +1,84 @@
+import type { SessionState } from "../types";
+import type { SessionStore, SessionStoreOptions } from "./types";
+
+interface MemoryEntry {
+  session: SessionState;
+  expiresAt: number;
+}
+
+/**
+ * Create an in-memory session store with LRU and TTL eviction.
+ *
+ * Notes:
+ * - This is NOT suitable for multi-instance or serverless deployments.
+ * - All data is lost when the server restarts.
+ * - When `maxEntries` is reached, the least recently used session is
+ *   evicted. Sessions are stored as copies so callers cannot mutate
+ *   stored state without saving.
+ */
+export function createMemorySessionStore(
+  options: SessionStoreOptions & { maxEntries: number },
+): SessionStore {
+  // Map iteration order is insertion order, so re-inserting on access
+  // keeps the least recently used entry first.
+  const sessions = new Map<string, MemoryEntry>();
+
+  function purgeExpired(): number {
+    const now = Date.now();
+    let removed = 0;
+    for (const [id, entry] of sessions) {
+      if (entry.expiresAt <= now) {
+        sessions.delete(id);
+        removed += 1;
+      }
+    }
+    return removed;
+  }
+
+  return {
+    name: "memory",
+
+    async get(sessionId) {
+      const entry = sessions.get(sessionId);
+      if (!entry) {
+        return null;
+      }
+
+      if (entry.expiresAt <= Date.now()) {
+        sessions.delete(sessionId);
+        return null;
+      }
+
+      sessions.delete(sessionId);
+      sessions.set(sessionId, entry);
+
+      return structuredClone(entry.session);
+    },
+
+    async save(session) {
+      sessions.delete(session.sessionId);
+      sessions.set(session.sessionId, {
+        session: structuredClone(session),
+        expiresAt: Date.now() + options.ttlMs,
+      });
+
+      if (sessions.size > options.maxEntries) {
+        purgeExpired();
+      }
+
+      while (sessions.size > options.maxEntries) {
+        const oldest = sessions.keys().next().value;
+        if (oldest === undefined) break;
+        sessions.delete(oldest);
+      }
+    },
+
+    async delete(sessionId) {
+      sessions.delete(sessionId);
+    },
+
+    async purgeExpired() {
+      return purgeExpired();
+    },
+  };
+}
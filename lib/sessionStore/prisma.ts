@@ -0,0 +1,173 @@
+import { Prisma } from "@prisma/client";
+
+import { prisma } from "../configStore";
+import {
+  PresenceStep,
+  SessionEndReason,
+  SessionNotes,
+  SessionState,
+  TranscriptEntry,
+} from "../types";
+import type { SessionStore, SessionStoreOptions } from "./types";
+
+/**
+ * Minimum interval between background purges of expired sessions.
+ */
+const PURGE_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Create a database-backed session store.
+ *
+ * Notes:
+ * - Sessions are stored in the `Session` table and their transcripts in
+ *   `SessionMessage`, so state survives restarts and is shared across
+ *   instances and serverless invocations.
+ * - Each save pushes the session's `expiresAt` forward by the TTL. Expired
+ *   (abandoned) sessions are treated as missing on read and are purged
+ *   periodically.
+ */
+export function createPrismaSessionStore(
+  options: SessionStoreOptions,
+): SessionStore {
+  let lastPurgeAt = 0;
+
+  async function deleteSession(sessionId: string): Promise<void> {
+    await prisma.session.deleteMany({ where: { id: sessionId } });
+  }
+
+  async function purgeExpired(): Promise<number> {
+    const result = await prisma.session.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    });
+    return result.count;
+  }
+
+  return {
+    name: "prisma",
+
+    async get(sessionId) {
+      const row = await prisma.session.findUnique({
+        where: { id: sessionId },
+        include: { messages: { orderBy: { position: "asc" } } },
+      });
+
+      if (!row) {
+        return null;
+      }
+
+      if (row.expiresAt.getTime() <= Date.now()) {
+        await deleteSession(sessionId);
+        return null;
+      }
+
+      return {
+        sessionId: row.id,
+        ritualSlug: row.ritualSlug ?? undefined,
+        configVersionId: row.configVersionId ?? undefined,
+        currentStep: row.currentStep as PresenceStep,
+        locale: row.locale ?? undefined,
+        createdAt: row.createdAt.toISOString(),
+        updatedAt: row.updatedAt.toISOString(),
+        userFeelingRaw: row.userFeelingRaw ?? undefined,
+        userFeelingSummary: row.userFeelingSummary ?? undefined,
+        nextActivityRaw: row.nextActivityRaw ?? undefined,
+        nextActivitySummary: row.nextActivitySummary ?? undefined,
+        notes: (row.notes ?? {}) as SessionNotes,
+        stepTurns: (row.stepTurns ?? {}) as SessionState["stepTurns"],
+        lifetimeTurns: row.lifetimeTurns ?? undefined,
+        endReason: (row.endReason as SessionEndReason | null) ?? undefined,
+        pausedAt: row.pausedAt?.toISOString(),
+        transcript: row.messages.map(
+          (m): TranscriptEntry => ({
+            role: m.role as TranscriptEntry["role"],
+            text: m.text,
+            step: m.step as PresenceStep,
+            timestamp: m.createdAt.toISOString(),
+          }),
+        ),
+      };
+    },
+
+    /**
+     * The transcript is append-only: messages beyond those already stored
+     * are inserted, existing ones are left untouched. The only exception
+     * is a restart, which clears it; stored messages past the new end are
+     * then deleted.
+     */
+    async save(session: SessionState) {
+      const expiresAt = new Date(Date.now() + options.ttlMs);
+
+      const data = {
+        ritualSlug: session.ritualSlug ?? null,
+        configVersionId: session.configVersionId ?? null,
+        currentStep: session.currentStep,
+        locale: session.locale ?? null,
+        userFeelingRaw: session.userFeelingRaw ?? null,
+        userFeelingSummary: session.userFeelingSummary ?? null,
+        nextActivityRaw: session.nextActivityRaw ?? null,
+        nextActivitySummary: session.nextActivitySummary ?? null,
+        notes: session.notes as Prisma.InputJsonValue,
+        stepTurns: session.stepTurns as Prisma.InputJsonValue,
+        lifetimeTurns: session.lifetimeTurns ?? null,
+        endReason: session.endReason ?? null,
+        pausedAt: session.pausedAt ? new Date(session.pausedAt) : null,
+        updatedAt: new Date(session.updatedAt),
+        expiresAt,
+      };
+
+      await prisma.$transaction(async (tx) => {
+        await tx.session.upsert({
+          where: { id: session.sessionId },
+          create: {
+            id: session.sessionId,
+            createdAt: new Date(session.createdAt),
+            ...data,
+          },
+          update: data,
+        });
+
+        const transcript = session.transcript ?? [];
+        let storedCount = await tx.sessionMessage.count({
+          where: { sessionId: session.sessionId },
+        });
+
+        // A restarted session starts over with a shorter transcript
+        if (transcript.length < storedCount) {
+          await tx.sessionMessage.deleteMany({
+            where: {
+              sessionId: session.sessionId,
+              position: { gte: transcript.length },
+            },
+          });
+          storedCount = transcript.length;
+        }
+
+        const newMessages = transcript.slice(storedCount);
+
+        if (newMessages.length > 0) {
+          await tx.sessionMessage.createMany({
+            data: newMessages.map((m, i) => ({
+              sessionId: session.sessionId,
+              position: storedCount + i,
+              role: m.role,
+              text: m.text,
+              step: m.step,
+              createdAt: new Date(m.timestamp),
+            })),
+          });
+        }
+      });
+
+      if (Date.now() - lastPurgeAt > PURGE_INTERVAL_MS) {
+        lastPurgeAt = Date.now();
+        void purgeExpired().catch((err) => {
+          console.error("Failed to purge expired sessions:", err);
+        });
+      }
+    },
+
+    delete: deleteSession,
+
+    purgeExpired,
+  };
+}
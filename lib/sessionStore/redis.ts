@@ -0,0 +1,50 @@
+import Redis from "ioredis";
+
+import type { SessionState } from "../types";
+import type { SessionStore, SessionStoreOptions } from "./types";
+
+/**
+ * Create a session store backed by any server that speaks the Redis
+ * protocol (Redis, Valkey, KeyDB, Dragonfly, ...).
+ *
+ * Each session is stored as a JSON string under `${keyPrefix}${sessionId}`
+ * with a TTL, so expiry is handled by the server itself. For local testing,
+ * point REDIS_URL at a server started with `redis-server` or
+ * `docker run -p 6379:6379 redis`.
+ */
+export function createRedisSessionStore(
+  options: SessionStoreOptions & { url: string; keyPrefix: string },
+): SessionStore {
+  const client = new Redis(options.url, {
+    lazyConnect: true,
+    maxRetriesPerRequest: 2,
+  });
+
+  client.on("error", (err) => {
+    console.error("Redis session store error:", err);
+  });
+
+  const keyFor = (sessionId: string) => `${options.keyPrefix}${sessionId}`;
+
+  return {
+    name: "redis",
+
+    async get(sessionId) {
+      const raw = await client.get(keyFor(sessionId));
+      return raw ? (JSON.parse(raw) as SessionState) : null;
+    },
+
+    async save(session) {
+      await client.set(
+        keyFor(session.sessionId),
+        JSON.stringify(session),
+        "PX",
+        options.ttlMs,
+      );
+    },
+
+    async delete(sessionId) {
+      await client.del(keyFor(sessionId));
+    },
+  };
+}
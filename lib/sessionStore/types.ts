@@ -0,0 +1,50 @@
+import type { SessionState } from "../types";
+
+/**
+ * Supported session store backends.
+ *
+ * - `prisma`: the `Session` / `SessionMessage` tables via Prisma.
+ * - `memory`: in-process map with LRU and TTL eviction (single instance only).
+ * - `file`: a JSON file on local disk (single instance only).
+ * - `redis`: any server speaking the Redis protocol (Redis, Valkey, KeyDB, ...).
+ */
+export type SessionStoreName = "prisma" | "memory" | "file" | "redis";
+
+/**
+ * Options shared by all session store adapters.
+ */
+export interface SessionStoreOptions {
+  /**
+   * How long an inactive session is kept, in milliseconds. Each save
+   * resets the clock.
+   */
+  ttlMs: number;
+}
+
+/**
+ * Common interface implemented by every session store adapter.
+ */
+export interface SessionStore {
+  readonly name: SessionStoreName;
+
+  /**
+   * Retrieve a session, or null if it does not exist or has expired.
+   */
+  get(sessionId: string): Promise<SessionState | null>;
+
+  /**
+   * Create or update a session and reset its expiry.
+   */
+  save(session: SessionState): Promise<void>;
+
+  /**
+   * Delete a session. Deleting a missing session is not an error.
+   */
+  delete(sessionId: string): Promise<void>;
+
+  /**
+   * Remove all expired sessions, returning how many were removed.
+   * Stores whose backend expires keys on its own may omit this.
+   */
+  purgeExpired?(): Promise<number>;
+}
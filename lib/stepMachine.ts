@@ -0,0 +1,362 @@
+import { PresenceStep, SessionState } from "./types";
+import type { PresenceConfig } from "./config";
+import type { RitualConfigJson, StepConfig } from "./configStore";
+import { validateBreathingConfig, type BreathingConfig } from "./breathing";
+
+/**
+ * Server-side state machine for a ritual's steps.
+ *
+ * Each ritual declares its own steps in its config: the ordered
+ * `sequence` of step IDs and, optionally, the `transitions` allowed from
+ * each step. Every ritual ends in the terminal DONE step.
+ *
+ * The prompt asks the model to follow the transition rules, but the model's
+ * `nextStep` is only a proposal. This module decides the step a session
+ * actually moves to:
+ * - A step may stay where it is or move to one of its allowed transitions
+ *   (by default, the next step in the sequence; DONE after the last).
+ * - Any other proposal is rejected: proposals further along the sequence
+ *   are collapsed to the step's default next step, anything else stays.
+ * - When a step's configured `maxTurns` is reached, the session is moved
+ *   to the default next step even if the model proposed staying.
+ */
+
+/**
+ * The terminal step every ritual ends in.
+ */
+export const DONE_STEP: PresenceStep = "DONE";
+
+/**
+ * Step IDs are shown to the model and used as note keys, so keep them to
+ * uppercase letters, digits and `_`.
+ */
+const STEP_ID_PATTERN = /^[A-Z][A-Z0-9_]{0,31}$/;
+
+/**
+ * A ritual's step definition, resolved from its config.
+ */
+export interface StepDefinition {
+  /**
+   * Step IDs in ritual order, not including DONE.
+   */
+  sequence: PresenceStep[];
+
+  /**
+   * Steps each step may move to besides staying; the first entry is the
+   * default next step.
+   */
+  transitions: Record<PresenceStep, PresenceStep[]>;
+}
+
+/**
+ * A ritual step as shown to users.
+ */
+export interface RitualStep {
+  id: PresenceStep;
+  label: string;
+  /**
+   * The step's guided breathing exercise, if it has a valid one.
+   */
+  breathing?: BreathingConfig;
+}
+
+/**
+ * Why the resolved step differs from (or matches) the model's proposal.
+ */
+export type StepResolution = "accepted" | "rejected" | "forced";
+
+const definitions = new WeakMap<object, StepDefinition>();
+
+function getStepsConfig(config: PresenceConfig): Record<string, StepConfig> {
+  return config.steps as Record<string, StepConfig>;
+}
+
+/**
+ * Resolve the step definition of a ritual config, applying the defaults
+ * described on `RitualConfigJson`. Configs are validated when saved (see
+ * `validateStepDefinition`); unknown step IDs are dropped here so an older
+ * config cannot break a session.
+ */
+export function getStepDefinition(config: PresenceConfig): StepDefinition {
+  const cached = definitions.get(config);
+  if (cached) return cached;
+
+  const ritualConfig = config as Partial<RitualConfigJson>;
+  const stepsConfig = getStepsConfig(config);
+
+  const sequence = (ritualConfig.sequence ?? Object.keys(stepsConfig)).filter(
+    (id) => id !== DONE_STEP && Boolean(stepsConfig[id]),
+  );
+
+  const transitions: Record<PresenceStep, PresenceStep[]> = {};
+  sequence.forEach((id, index) => {
+    const declared = (ritualConfig.transitions?.[id] ?? []).filter(
+      (to) => to !== id && (to === DONE_STEP || sequence.includes(to)),
+    );
+    transitions[id] =
+      declared.length > 0 ? declared : [sequence[index + 1] ?? DONE_STEP];
+  });
+
+  const definition = { sequence, transitions };
+  definitions.set(config, definition);
+
+  return definition;
+}
+
+/**
+ * All step IDs of a ritual in order, followed by DONE.
+ */
+export function getStepSequence(config: PresenceConfig): PresenceStep[] {
+  return [...getStepDefinition(config).sequence, DONE_STEP];
+}
+
+/**
+ * The step a new session starts in.
+ */
+export function getFirstStep(config: PresenceConfig): PresenceStep {
+  return getStepDefinition(config).sequence[0] ?? DONE_STEP;
+}
+
+/**
+ * The steps `step` may move to besides staying (DONE has none).
+ */
+export function getAllowedTransitions(
+  step: PresenceStep,
+  config: PresenceConfig,
+): PresenceStep[] {
+  return getStepDefinition(config).transitions[step] ?? [];
+}
+
+/**
+ * The default step after `step`: its first allowed transition, or DONE.
+ */
+export function getNextStep(
+  step: PresenceStep,
+  config: PresenceConfig,
+): PresenceStep {
+  return getAllowedTransitions(step, config)[0] ?? DONE_STEP;
+}
+
+/**
+ * Whether moving from `from` to `to` is a legal transition.
+ */
+export function isValidTransition(
+  from: PresenceStep,
+  to: PresenceStep,
+  config: PresenceConfig,
+): boolean {
+  if (from === DONE_STEP) return to === DONE_STEP;
+  if (to === from) return getStepSequence(config).includes(from);
+  return getAllowedTransitions(from, config).includes(to);
+}
+
+/**
+ * The ritual's steps with their display labels, in order (not including
+ * DONE).
+ */
+export function getRitualSteps(config: PresenceConfig): RitualStep[] {
+  const stepsConfig = getStepsConfig(config);
+
+  return getStepDefinition(config).sequence.map((id) => {
+    const { label, breathing } = stepsConfig[id] ?? {};
+
+    return {
+      id,
+      label: label || formatStepId(id),
+      ...(breathing && validateBreathingConfig(breathing) === null
+        ? { breathing }
+        : {}),
+    };
+  });
+}
+
+/**
+ * Default display label for a step ID: "BODY_SCAN" → "Body scan".
+ */
+function formatStepId(id: PresenceStep): string {
+  const words = id.toLowerCase().replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * The `SessionNotes` key a step's note is stored under.
+ */
+export function getStepNoteKey(step: PresenceStep): string {
+  return step.toLowerCase();
+}
+
+/**
+ * Check the step definition of a ritual config before it is saved.
+ *
+ * Returns a description of the first problem, or null if the sequence,
+ * transitions and breathing exercises are usable.
+ */
+export function validateStepDefinition(config: {
+  steps?: unknown;
+  sequence?: unknown;
+  transitions?: unknown;
+}): string | null {
+  const { steps, sequence, transitions } = config;
+
+  if (typeof steps !== "object" || steps === null || Array.isArray(steps)) {
+    return `"steps" must be an object of step configs keyed by step ID.`;
+  }
+
+  const stepIds =
+    sequence === undefined ? Object.keys(steps) : (sequence as unknown[]);
+
+  if (!Array.isArray(stepIds) || stepIds.length === 0) {
+    return `"sequence" must be a non-empty array of step IDs.`;
+  }
+
+  for (const id of stepIds) {
+    if (typeof id !== "string" || !STEP_ID_PATTERN.test(id)) {
+      return `Step ID ${JSON.stringify(id)} must be uppercase letters, digits and "_", starting with a letter.`;
+    }
+    if (id === DONE_STEP) {
+      return `"${DONE_STEP}" is reserved for the end of the ritual.`;
+    }
+    if (!(id in steps)) {
+      return `Step "${id}" is in "sequence" but has no entry in "steps".`;
+    }
+
+    const breathing = (steps as Record<string, { breathing?: unknown }>)[id]
+      ?.breathing;
+    const breathingError =
+      breathing === undefined ? null : validateBreathingConfig(breathing);
+    if (breathingError) {
+      return `"steps.${id}.breathing" ${breathingError}.`;
+    }
+  }
+
+  if (new Set(stepIds).size !== stepIds.length) {
+    return `"sequence" must not list a step more than once.`;
+  }
+
+  if (transitions !== undefined) {
+    if (
+      typeof transitions !== "object" ||
+      transitions === null ||
+      Array.isArray(transitions)
+    ) {
+      return `"transitions" must be an object of step ID arrays keyed by step ID.`;
+    }
+
+    for (const [from, targets] of Object.entries(transitions)) {
+      if (!stepIds.includes(from)) {
+        return `"transitions" has an entry for unknown step "${from}".`;
+      }
+      if (!Array.isArray(targets) || targets.length === 0) {
+        return `"transitions.${from}" must be a non-empty array of step IDs.`;
+      }
+      for (const to of targets) {
+        if (to !== DONE_STEP && !stepIds.includes(to)) {
+          return `"transitions.${from}" lists unknown step ${JSON.stringify(to)}.`;
+        }
+        if (to === from) {
+          return `"transitions.${from}" must not list the step itself; staying is always allowed.`;
+        }
+      }
+    }
+  }
+
+  // Every ritual has to be able to finish
+  const definition = getStepDefinition(config as PresenceConfig);
+  const reached = new Set<PresenceStep>([definition.sequence[0]]);
+  const queue = [definition.sequence[0]];
+
+  while (queue.length > 0) {
+    const step = queue.shift() as PresenceStep;
+    for (const to of definition.transitions[step] ?? []) {
+      if (!reached.has(to)) {
+        reached.add(to);
+        queue.push(to);
+      }
+    }
+  }
+
+  if (!reached.has(DONE_STEP)) {
+    return `The ritual can never reach "${DONE_STEP}" from its first step.`;
+  }
+
+  return null;
+}
+
+/**
+ * The configured `maxTurns` for a step in the session's ritual, if any.
+ */
+export function getMaxTurns(
+  step: PresenceStep,
+  config: PresenceConfig,
+): number | undefined {
+  const stepConfig = getStepsConfig(config)[step];
+  const maxTurns = stepConfig?.maxTurns;
+  return typeof maxTurns === "number" && maxTurns > 0 ? maxTurns : undefined;
+}
+
+/**
+ * Total user turns taken in a session, across all steps.
+ */
+export function countSessionTurns(session: SessionState): number {
+  return Object.values(session.stepTurns ?? {}).reduce<number>(
+    (sum, n) => sum + (n ?? 0),
+    0,
+  );
+}
+
+/**
+ * User turns taken in a session over its lifetime, including turns before
+ * any restart.
+ */
+export function countLifetimeTurns(session: SessionState): number {
+  return Math.max(session.lifetimeTurns ?? 0, countSessionTurns(session));
+}
+
+/**
+ * Decide the step a session moves to after a turn.
+ *
+ * @param from - The session's current step.
+ * @param proposed - The step proposed by the model (or scripted engine).
+ * @param turnsInStep - Completed turns in `from`, including this one.
+ * @param config - The session's ritual config, for its steps and turn limits.
+ */
+export function resolveNextStep({
+  from,
+  proposed,
+  turnsInStep,
+  config,
+}: {
+  from: PresenceStep;
+  proposed: PresenceStep;
+  turnsInStep: number;
+  config: PresenceConfig;
+}): { step: PresenceStep; resolution: StepResolution } {
+  let step = proposed;
+  let resolution: StepResolution = "accepted";
+
+  if (!isValidTransition(from, proposed, config)) {
+    // Never move backward; collapse any other forward move to the default
+    // next step.
+    const sequence = getStepSequence(config);
+    const proposedIndex = sequence.indexOf(proposed);
+    const fromIndex = sequence.indexOf(from);
+    step =
+      fromIndex !== -1 && proposedIndex > fromIndex
+        ? getNextStep(from, config)
+        : from;
+    resolution = "rejected";
+  }
+
+  const maxTurns = getMaxTurns(from, config);
+  if (
+    step === from &&
+    from !== DONE_STEP &&
+    maxTurns &&
+    turnsInStep >= maxTurns
+  ) {
+    step = getNextStep(from, config);
+    resolution = "forced";
+  }
+
+  return { step, resolution };
+}
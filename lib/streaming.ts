@@ -0,0 +1,111 @@
+/**
+ * Helpers for streaming Presence Shift Companion replies to the client.
+ *
+ * The model is asked to reply with a single JSON object whose first field is
+ * `assistantMessage`. While the completion is still streaming, we pull the
+ * text of that field out of the partial JSON so the user can read it as it
+ * arrives. `nextStep` and `notesUpdate` are only resolved once the full
+ * object has been received and parsed.
+ */
+
+/**
+ * Names of the Server-Sent Events emitted by `POST /api/chat` when the
+ * client asks for a streamed reply.
+ *
+ * - `delta`: a new fragment of `assistantMessage` text (`{ text }`).
+ * - `done`: the final chat response body, identical in shape to the
+ *   non-streaming JSON response.
+ */
+export type ChatStreamEvent = "delta" | "done";
+
+/**
+ * Encode a single Server-Sent Event frame with a JSON payload.
+ */
+export function encodeSseEvent(event: ChatStreamEvent, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Incremental extractor for the `assistantMessage` string value inside a
+ * JSON object that is still being streamed.
+ *
+ * Call `push()` with each raw text chunk from the model; it returns only the
+ * newly decoded characters of `assistantMessage` (possibly an empty string).
+ * Escape sequences split across chunks are held back until complete.
+ */
+export function createAssistantMessageExtractor(): {
+  push(chunk: string): string;
+} {
+  const keyPattern = /"assistantMessage"\s*:\s*"/;
+
+  let buffer = "";
+  let cursor = -1;
+  let finished = false;
+
+  const simpleEscapes: Record<string, string> = {
+    '"': '"',
+    "\\": "\\",
+    "/": "/",
+    b: "\b",
+    f: "\f",
+    n: "\n",
+    r: "\r",
+    t: "\t",
+  };
+
+  return {
+    push(chunk: string): string {
+      buffer += chunk;
+
+      if (finished) {
+        return "";
+      }
+
+      if (cursor < 0) {
+        const match = keyPattern.exec(buffer);
+        if (!match) {
+          return "";
+        }
+        cursor = match.index + match[0].length;
+      }
+
+      let out = "";
+
+      while (cursor < buffer.length) {
+        const ch = buffer[cursor];
+
+        if (ch === '"') {
+          finished = true;
+          break;
+        }
+
+        if (ch !== "\\") {
+          out += ch;
+          cursor += 1;
+          continue;
+        }
+
+        // Escape sequence: wait for the rest of it if it is incomplete.
+        const next = buffer[cursor + 1];
+        if (next === undefined) {
+          break;
+        }
+
+        if (next === "u") {
+          const hex = buffer.slice(cursor + 2, cursor + 6);
+          if (hex.length < 4) {
+            break;
+          }
+          out += String.fromCharCode(parseInt(hex, 16));
+          cursor += 6;
+          continue;
+        }
+
+        out += simpleEscapes[next] ?? next;
+        cursor += 2;
+      }
+
+      return out;
+    },
+  };
+}
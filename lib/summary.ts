@@ -0,0 +1,75 @@
+import { SessionState } from "./types";
+import type { PresenceConfig } from "./config";
+import type { StepConfig } from "./configStore";
+import { getRitualSteps, getStepNoteKey } from "./stepMachine";
+import { getMessages } from "./messages";
+
+/**
+ * One labelled line of an end-of-shift summary.
+ */
+export interface SessionSummaryItem {
+  key: string;
+  label: string;
+  text: string;
+}
+
+/**
+ * End-of-shift summary built from the notes captured during the ritual.
+ */
+export interface SessionSummary {
+  sessionId: string;
+  done: boolean;
+  nextActivity?: string;
+  items: SessionSummaryItem[];
+
+  /**
+   * Plain-text version of the summary, suitable for copying to the
+   * clipboard.
+   */
+  text: string;
+}
+
+/**
+ * Build the end-of-shift summary for a session, with one item per step of
+ * its ritual that has a note, labelled with the step's `summaryLabel`.
+ * Pass a config localized to the session's language (see
+ * `localizeConfig`).
+ *
+ * Returns null for sessions that were ended by a safety response; those
+ * should not be summarized back to the user.
+ */
+export function buildSessionSummary(
+  session: SessionState,
+  config: PresenceConfig,
+): SessionSummary | null {
+  if (session.endReason === "safety") {
+    return null;
+  }
+
+  const stepsConfig = config.steps as Record<string, StepConfig>;
+
+  const items = getRitualSteps(config).flatMap(({ id, label }) => {
+    const key = getStepNoteKey(id);
+    const text = session.notes[key]?.trim();
+    const summaryLabel = stepsConfig[id]?.summaryLabel || label;
+    return text ? [{ key, label: summaryLabel, text }] : [];
+  });
+
+  const nextActivity = session.nextActivityRaw?.trim() || undefined;
+
+  const { summaryTitle, summaryNext } = getMessages(session.locale).server;
+
+  const lines = [
+    summaryTitle,
+    ...(nextActivity ? [`${summaryNext}: ${nextActivity}`] : []),
+    ...items.map((item) => `${item.label}: ${item.text}`),
+  ];
+
+  return {
+    sessionId: session.sessionId,
+    done: session.currentStep === "DONE",
+    nextActivity,
+    items,
+    text: lines.join("\n"),
+  };
+}
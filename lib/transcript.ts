@@ -0,0 +1,104 @@
+import { PresenceStep, SessionState, TranscriptEntry } from "./types";
+
+/**
+ * Helpers for the per-session conversation transcript and the window of
+ * recent turns that is fed back into the prompt.
+ */
+
+/**
+ * Settings for how much history is included in each prompt.
+ */
+export interface HistoryWindowOptions {
+  /**
+   * Maximum number of transcript entries (user and assistant messages).
+   */
+  maxMessages: number;
+
+  /**
+   * Approximate token budget for the included history.
+   */
+  maxTokens: number;
+}
+
+const DEFAULT_HISTORY_MESSAGES = 8;
+const DEFAULT_HISTORY_TOKENS = 1200;
+
+/**
+ * Read the history window settings from the environment.
+ *
+ * - PROMPT_HISTORY_MESSAGES: max entries to include (default: 8, 0 disables)
+ * - PROMPT_HISTORY_MAX_TOKENS: approximate token budget (default: 1200)
+ */
+export function getHistoryWindowOptions(): HistoryWindowOptions {
+  const messages = Number(process.env.PROMPT_HISTORY_MESSAGES);
+  const tokens = Number(process.env.PROMPT_HISTORY_MAX_TOKENS);
+
+  return {
+    maxMessages:
+      process.env.PROMPT_HISTORY_MESSAGES && Number.isFinite(messages)
+        ? Math.max(0, Math.floor(messages))
+        : DEFAULT_HISTORY_MESSAGES,
+    maxTokens:
+      process.env.PROMPT_HISTORY_MAX_TOKENS && Number.isFinite(tokens)
+        ? Math.max(0, Math.floor(tokens))
+        : DEFAULT_HISTORY_TOKENS,
+  };
+}
+
+/**
+ * Rough token estimate (about four characters per token for English
+ * text). Good enough for budgeting without pulling in a tokenizer.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Append a message to the session transcript.
+ */
+export function appendToTranscript(
+  session: SessionState,
+  entry: { role: TranscriptEntry["role"]; text: string; step: PresenceStep },
+): void {
+  session.transcript = [
+    ...(session.transcript ?? []),
+    { ...entry, timestamp: new Date().toISOString() },
+  ];
+}
+
+/**
+ * Select the most recent transcript entries that fit within the window.
+ *
+ * Entries are taken newest-first until either limit is reached and
+ * returned in chronological order. If the newest entry alone exceeds the
+ * token budget, it is truncated rather than dropped so the model always
+ * sees its previous reply.
+ */
+export function selectHistoryWindow(
+  transcript: TranscriptEntry[],
+  options: HistoryWindowOptions = getHistoryWindowOptions(),
+): TranscriptEntry[] {
+  const { maxMessages, maxTokens } = options;
+  const selected: TranscriptEntry[] = [];
+  let usedTokens = 0;
+
+  for (let i = transcript.length - 1; i >= 0; i--) {
+    if (selected.length >= maxMessages) break;
+
+    const entry = transcript[i];
+    const cost = estimateTokens(entry.text);
+
+    if (usedTokens + cost > maxTokens) {
+      if (selected.length === 0 && maxTokens > 0) {
+        const text = `${entry.text.slice(0, maxTokens * 4)}…`;
+        selected.push({ ...entry, text });
+      }
+      break;
+    }
+
+    selected.push(entry);
+    usedTokens += cost;
+  }
+
+  return selected.reverse();
+}
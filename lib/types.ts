@@ -1,36 +1,55 @@
-export type PresenceStep =
-  | "ANSWER"
-  | "INTEND"
-  | "FOCUS"
-  | "FLOW"
-  | "BEGIN"
-  | "DONE";
+/**
+ * ID of a ritual step, as declared in the ritual config's `sequence`
+ * (e.g. "ANSWER" in the default ritual), or the terminal "DONE" step that
+ * every ritual ends with.
+ */
+export type PresenceStep = string;
 
-export interface SessionNotes {
-  /**
-   * Short summary of what the user named in the ANSWER step.
-   */
-  answer?: string;
+/**
+ * Step-specific notes captured along the way, keyed by the lowercase step
+ * ID (e.g. `answer` for ANSWER). For the default ritual:
+ * - `answer`: what the user named in the ANSWER step.
+ * - `intend`: how they want to show up for what's next.
+ * - `focus`: the grounding or focus practice they used.
+ * - `flow`: how the new presence or quality felt as they stayed with it.
+ * - `begin`: the concrete first action they chose.
+ */
+export type SessionNotes = Partial<Record<string, string>>;
 
+/**
+ * Why a session ended.
+ */
+export type SessionEndReason =
+  | "completed"
+  | "skipped"
+  | "safety"
+  | "user_ended";
+
+/**
+ * A single message in a session's conversation transcript.
+ */
+export interface TranscriptEntry {
   /**
-   * The user's intention or how they want to show up for what's next.
+   * Who sent the message.
    */
-  intend?: string;
+  role: "user" | "assistant";
 
   /**
-   * Brief note on the grounding or focus practice they used.
+   * The message text as shown to the user.
    */
-  focus?: string;
+  text: string;
 
   /**
-   * How the new presence or quality felt as they stayed with it.
+   * The ritual step the message belongs to. For user messages this is
+   * the step they replied in; for assistant messages, the step the
+   * session moved to with that reply.
    */
-  flow?: string;
+  step: PresenceStep;
 
   /**
-   * The concrete first action they chose to begin what's next.
+   * ISO timestamp when the message was recorded.
    */
-  begin?: string;
+  timestamp: string;
 }
 
 /**
@@ -49,6 +68,29 @@ export interface SessionState {
    */
   currentStep: PresenceStep;
 
+  /**
+   * Slug of the ritual this session runs. Set when the session is created
+   * and never changed; sessions created before rituals were selectable
+   * use the default ritual.
+   */
+  ritualSlug?: string;
+
+  /**
+   * ID of the `RitualConfigVersion` the session started with. Every turn
+   * uses this exact version, so publishing a new version does not change
+   * sessions already in progress. Absent when the session runs on the
+   * bundled config.
+   */
+  configVersionId?: string;
+
+  /**
+   * Language the session runs in (e.g. "es"), from the language picker or
+   * the browser. The ritual's text, the app's copy and the Companion's
+   * replies use this language; absent for sessions created before
+   * localization, which use the default locale.
+   */
+  locale?: string;
+
   /**
    * ISO timestamp when the session was created.
    */
@@ -87,4 +129,59 @@ export interface SessionState {
    * These can be used for a session summary at the end.
    */
   notes: SessionNotes;
+
+  /**
+   * Number of user turns completed in each step, used to enforce the
+   * per-step `maxTurns` limits from the ritual config.
+   */
+  stepTurns: Partial<Record<PresenceStep, number>>;
+
+  /**
+   * Number of user turns taken over the session's lifetime. Unlike
+   * `stepTurns` it is not cleared by a restart, so MAX_TURNS_PER_SESSION
+   * caps the session as a whole. Absent for sessions created before it was
+   * added; see `countLifetimeTurns`.
+   */
+  lifetimeTurns?: number;
+
+  /**
+   * Full conversation transcript for this session, oldest first.
+   */
+  transcript: TranscriptEntry[];
+
+  /**
+   * Why the session reached DONE, if it has:
+   * - "completed": the ritual finished normally.
+   * - "skipped": the user skipped past the last step.
+   * - "safety": a safety / crisis response ended the session.
+   * - "user_ended": the user chose to end the ritual early.
+   */
+  endReason?: SessionEndReason;
+
+  /**
+   * ISO timestamp when the user paused the session, if it is paused.
+   * Messages are refused until the session is resumed.
+   */
+  pausedAt?: string;
+}
+
+/**
+ * The structured outcome of a single Companion turn, whether produced by
+ * the LLM or by the scripted engine.
+ */
+export interface TurnResult {
+  /**
+   * The message shown to the user.
+   */
+  assistantMessage: string;
+
+  /**
+   * The step the session moves to after this turn.
+   */
+  nextStep: PresenceStep;
+
+  /**
+   * Notes to merge into the session's notes.
+   */
+  notesUpdate?: Partial<SessionNotes>;
 }
@@ -0,0 +1,126 @@
+import type { PresenceConfig } from "./config";
+import type { RitualConfigJson } from "./configStore";
+
+/**
+ * Voice mode for the Shift page.
+ *
+ * With voice mode on, the user can hold a button to speak instead of
+ * typing, and the Companion's replies are read aloud, using the browser's
+ * Web Speech APIs. Each ritual tunes the voice in `brandVoice.voice`.
+ * Browsers without the APIs keep the text chat.
+ */
+
+/**
+ * The `brandVoice.voice` section of a ritual config.
+ */
+export interface VoiceConfig {
+  /**
+   * Offer voice mode on the Shift page (default: true).
+   */
+  enabled?: boolean;
+
+  /**
+   * BCP 47 language for speech recognition and synthesis (default:
+   * "en-US").
+   */
+  lang?: string;
+
+  /**
+   * Preferred synthesis voices, best first, matched against the browser's
+   * voice names (e.g. "Samantha", "Google UK English Female"). Falls back
+   * to the browser's default voice for `lang`.
+   */
+  voiceNames?: string[];
+
+  /**
+   * Speaking rate, 0.5–2 (default: 0.95).
+   */
+  rate?: number;
+
+  /**
+   * Speaking pitch, 0–2 (default: 1).
+   */
+  pitch?: number;
+
+  /**
+   * Silence between sentences, in milliseconds (default: 350).
+   */
+  sentencePauseMs?: number;
+}
+
+/**
+ * Voice settings with defaults applied, as passed to the Shift page.
+ */
+export interface VoiceSettings {
+  enabled: boolean;
+  lang: string;
+  voiceNames: string[];
+  rate: number;
+  pitch: number;
+  sentencePauseMs: number;
+}
+
+/**
+ * Settings for rituals without a `brandVoice.voice` section.
+ */
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  enabled: true,
+  lang: "en-US",
+  voiceNames: [],
+  rate: 0.95,
+  pitch: 1,
+  sentencePauseMs: 350,
+};
+
+const MAX_SENTENCE_PAUSE_MS = 3000;
+
+function clamp(
+  value: unknown,
+  min: number,
+  max: number,
+  fallback: number,
+): number {
+  return typeof value === "number" && Number.isFinite(value)
+    ? Math.min(max, Math.max(min, value))
+    : fallback;
+}
+
+/**
+ * The voice settings of a ritual. Values out of range are clamped, and
+ * anything missing or malformed uses the default.
+ */
+export function getVoiceSettings(config: PresenceConfig): VoiceSettings {
+  const voice: Partial<Record<keyof VoiceConfig, unknown>> =
+    (config.brandVoice as Partial<RitualConfigJson["brandVoice"]>).voice ?? {};
+
+  return {
+    enabled: voice.enabled !== false,
+    lang:
+      typeof voice.lang === "string" && voice.lang.trim()
+        ? voice.lang.trim()
+        : DEFAULT_VOICE_SETTINGS.lang,
+    voiceNames: Array.isArray(voice.voiceNames)
+      ? voice.voiceNames.filter(
+          (name): name is string => typeof name === "string",
+        )
+      : DEFAULT_VOICE_SETTINGS.voiceNames,
+    rate: clamp(voice.rate, 0.5, 2, DEFAULT_VOICE_SETTINGS.rate),
+    pitch: clamp(voice.pitch, 0, 2, DEFAULT_VOICE_SETTINGS.pitch),
+    sentencePauseMs: clamp(
+      voice.sentencePauseMs,
+      0,
+      MAX_SENTENCE_PAUSE_MS,
+      DEFAULT_VOICE_SETTINGS.sentencePauseMs,
+    ),
+  };
+}
+
+/**
+ * Split a reply into sentences to speak one at a time, so the configured
+ * pause can be left between them.
+ */
+export function splitIntoUtterances(text: string): string[] {
+  return (text.match(/[^.!?…]+(?:[.!?…]+["'”’)]*|$)/g) ?? [])
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
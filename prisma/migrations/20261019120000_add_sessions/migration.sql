@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "Session" (
+    "id" TEXT NOT NULL,
+    "currentStep" TEXT NOT NULL,
+    "userFeelingRaw" TEXT,
+    "userFeelingSummary" TEXT,
+    "nextActivityRaw" TEXT,
+    "nextActivitySummary" TEXT,
+    "notes" JSONB NOT NULL,
+    "stepTurns" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Session_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SessionMessage" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "role" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "step" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SessionMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Session_expiresAt_idx" ON "Session"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "SessionMessage_sessionId_idx" ON "SessionMessage"("sessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SessionMessage_sessionId_position_key" ON "SessionMessage"("sessionId", "position");
+
+-- AddForeignKey
+ALTER TABLE "SessionMessage" ADD CONSTRAINT "SessionMessage_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "SafetyEvent" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "ritualSlug" TEXT NOT NULL,
+    "configVersionId" TEXT,
+    "source" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "severity" TEXT,
+    "step" TEXT NOT NULL,
+    "excerpt" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "reviewNote" TEXT,
+    "reviewedBy" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SafetyEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SafetyEvent_status_createdAt_idx" ON "SafetyEvent"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SafetyEvent_sessionId_idx" ON "SafetyEvent"("sessionId");
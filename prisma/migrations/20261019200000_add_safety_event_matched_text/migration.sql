@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SafetyEvent" ADD COLUMN     "matchedText" TEXT;
@@ -23,6 +23,15 @@ const config: Config = {
           "Segoe UI",
           "sans-serif"
         ]
+      },
+      keyframes: {
+        "fade-in": {
+          from: { opacity: "0", transform: "translateY(2px)" },
+          to: { opacity: "1", transform: "translateY(0)" }
+        }
+      },
+      animation: {
+        "fade-in": "fade-in 0.5s ease-out"
       }
     }
   },